@@ -0,0 +1,15 @@
+/**
+ * Chainlink feeds, and the tokens composite oracles read rates from, by network and name.
+ * Names are the feed descriptions, e.g. `ETH / USD`.
+ */
+const feeds: Record<string, Record<string, string>> = {
+    mainnet: {
+        'ETH / USD': '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+        'STETH / USD': '0xCfE54B5cD566aB89272946F602D76Ea879CAb4a8',
+        'RETH / ETH': '0x536218f9E9Eb48863970252233c8F271f554C2d0',
+        // stETH token, the multiplier of the STETH / USD base for wstETH
+        stETH: '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84'
+    }
+};
+
+export default feeds;
@@ -0,0 +1,51 @@
+import { ProtocolConfig } from './types';
+
+const config: ProtocolConfig = {
+    closeFactor: '0.6',
+    liquidationIncentive: '1.08',
+    interestRateModels: {
+        lst: {
+            blocksPerYear: 2102400,
+            baseRatePerYear: '0.1',
+            multiplierPerYear: '0.45',
+            jumpMultiplierPerYear: '5',
+            kink: '0.9'
+        }
+    },
+    compositeOracles: {
+        wstETH: {
+            // STETH/USD feed and the stETH token for the wstETH/stETH rate
+            base: '0xCfE54B5cD566aB89272946F602D76Ea879CAb4a8',
+            multiplier: '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84'
+        },
+        rETH: {
+            // ETH/USD and rETH/ETH feeds
+            base: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+            multiplier: '0x536218f9E9Eb48863970252233c8F271f554C2d0'
+        }
+    },
+    markets: [
+        {
+            name: 'Cluster WstETH',
+            symbol: 'clWstETH',
+            underlying: '0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0',
+            interestRateModel: 'lst',
+            initialExchangeRate: '1',
+            priceFeed: 'wstETH',
+            collateralFactor: '0.8',
+            leverage: true
+        },
+        {
+            name: 'Cluster RETH',
+            symbol: 'clRETH',
+            underlying: '0xae78736Cd615f374D3085123A210448E74Fc6393',
+            interestRateModel: 'lst',
+            initialExchangeRate: '1',
+            priceFeed: 'rETH',
+            collateralFactor: '0.8',
+            leverage: true
+        }
+    ]
+};
+
+export default config;
@@ -0,0 +1,86 @@
+/**
+ * Protocol deployment config consumed by the `deploy-protocol` task.
+ * Mantissas and annual rates are written as decimal strings (e.g. "0.8" for 80%)
+ * and are scaled by 1e18 when deploying.
+ */
+
+export interface JumpRateModelConfig {
+    blocksPerYear: number;
+    baseRatePerYear: string;
+    multiplierPerYear: string;
+    jumpMultiplierPerYear: string;
+    kink: string;
+}
+
+/**
+ * Components are addresses or names of `config/feeds.ts`.
+ */
+export interface CompositeOracleConfig {
+    /** base chainlink feed, e.g. ETH/USD */
+    base: string;
+    /** first multiplier, e.g. rETH/ETH feed or the stETH token for the STETH/USD base */
+    multiplier: string;
+    /** optional second multiplier */
+    secondMultiplier?: string;
+}
+
+export interface MarketConfig {
+    /** ERC-20 name of the clToken, e.g. "Cluster WstETH" */
+    name: string;
+    /** ERC-20 symbol of the clToken, e.g. "clWstETH" */
+    symbol: string;
+    /** address of the underlying asset */
+    underlying: string;
+    /** key of the model in `interestRateModels` */
+    interestRateModel: string;
+    /**
+     * initial exchange rate mantissa, not adjusted for the decimals of the tokens,
+     * derived from the decimals (1 clToken = 0.02 underlying) when omitted
+     */
+    initialExchangeRate?: string;
+    /** clToken decimals, defaults to 8 */
+    decimals?: number;
+    /** chainlink feed address or key of an oracle in `compositeOracles` */
+    priceFeed: string;
+    collateralFactor: string;
+    /** whether the market is added to the Leverage contract */
+    leverage?: boolean;
+}
+
+export interface ProtocolConfig {
+    /** admin of the markets and owner of the interest rate models, defaults to the deployer */
+    admin?: string;
+    /** CLR minter, defaults to the admin */
+    clrMinter?: string;
+    closeFactor: string;
+    liquidationIncentive: string;
+    interestRateModels: Record<string, JumpRateModelConfig>;
+    compositeOracles?: Record<string, CompositeOracleConfig>;
+    markets: MarketConfig[];
+}
+
+/**
+ * Desired risk parameters of a market, consumed by the `propose-risk-params` task.
+ * Omitted fields are left unchanged.
+ */
+export interface MarketRiskParams {
+    collateralFactor?: string;
+    /** in underlying units, "0" for no cap */
+    borrowCap?: string;
+    reserveFactor?: string;
+    /** address or manifest key of the interest rate model */
+    interestRateModel?: string;
+    /** CLR per block distributed to suppliers, in CLR units */
+    clrSupplySpeed?: string;
+    /** CLR per block distributed to borrowers, in CLR units */
+    clrBorrowSpeed?: string;
+    mintPaused?: boolean;
+    borrowPaused?: boolean;
+}
+
+export interface RiskParamsConfig {
+    /** by clToken address or manifest key, e.g. "ClErc20:clWstETH" */
+    markets: Record<string, MarketRiskParams>;
+    transferPaused?: boolean;
+    seizePaused?: boolean;
+}
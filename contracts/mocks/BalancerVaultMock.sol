@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import { IERC20, SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IFlashLoanRecipient } from "../interfaces/balancer/IFlashLoanRecipient.sol";
+import { IVault } from "../interfaces/balancer/IVault.sol";
+
+/**
+ * @notice Flash loans of the Balancer vault, to be etched at its address on a local network.
+ * Like the vault, it lends its own token balances and charges a fee percentage rounded up.
+ * @dev Etched code keeps no constructor state, so the fee starts at 0.
+ */
+contract BalancerVaultMock is IVault {
+    using SafeERC20 for IERC20;
+
+    uint256 private constant ONE = 1e18;
+
+    // fee percentage of the loaned amounts, scaled by 1e18
+    uint256 public flashLoanFeePercentage;
+
+    event FlashLoan(
+        IFlashLoanRecipient indexed recipient,
+        IERC20 indexed token,
+        uint256 amount,
+        uint256 feeAmount
+    );
+
+    error InsufficientFlashLoanBalance();
+    error InsufficientFlashLoanFeeAmount();
+
+    function setFlashLoanFeePercentage(uint256 newFlashLoanFeePercentage) external {
+        flashLoanFeePercentage = newFlashLoanFeePercentage;
+    }
+
+    function flashLoan(
+        IFlashLoanRecipient recipient,
+        IERC20[] memory tokens,
+        uint256[] memory amounts,
+        bytes memory userData
+    ) external override {
+        uint256[] memory feeAmounts = new uint256[](tokens.length);
+        uint256[] memory preLoanBalances = new uint256[](tokens.length);
+
+        for (uint256 i = 0; i < tokens.length; ++i) {
+            preLoanBalances[i] = tokens[i].balanceOf(address(this));
+            if (preLoanBalances[i] < amounts[i]) revert InsufficientFlashLoanBalance();
+
+            feeAmounts[i] = (amounts[i] * flashLoanFeePercentage + ONE - 1) / ONE;
+            tokens[i].safeTransfer(address(recipient), amounts[i]);
+        }
+
+        recipient.receiveFlashLoan(tokens, amounts, feeAmounts, userData);
+
+        for (uint256 i = 0; i < tokens.length; ++i) {
+            uint256 postLoanBalance = tokens[i].balanceOf(address(this));
+            if (postLoanBalance < preLoanBalances[i] + feeAmounts[i]) {
+                revert InsufficientFlashLoanFeeAmount();
+            }
+
+            emit FlashLoan(recipient, tokens[i], amounts[i], postLoanBalance - preLoanBalances[i]);
+        }
+    }
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @notice ERC20 mock with configurable symbol and decimals, to test markets of any underlying.
+ */
+contract ERC20DecimalsMock is ERC20 {
+    uint8 private immutable DECIMALS;
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_) ERC20(name_, symbol_) {
+        DECIMALS = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return DECIMALS;
+    }
+
+    function mint(address account, uint256 amount) public {
+        _mint(account, amount);
+    }
+}
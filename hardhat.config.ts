@@ -19,8 +19,9 @@ const config: HardhatUserConfig = {
   },
   networks: {
     hardhat: {
+      // Offline by default, FORK=true forks mainnet for the suites built on live contracts
       forking: {
-        enabled: true,
+        enabled: process.env.FORK === 'true',
         url: `https://eth-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_API_KEY}`,
         blockNumber: 19879247
       }
@@ -1,14 +1,8 @@
-import { ethers, upgrades } from "hardhat";
+import hre from "hardhat";
+import { deployProxy } from "../tasks/utils/deployments";
 
 async function main() {
-  const Comptroller = await ethers.getContractFactory("Comptroller");
-  const comptroller = await upgrades.deployProxy(Comptroller);
-
-  await comptroller.waitForDeployment();
-
-  console.log(
-    `Comptroller deployed to ${comptroller.target}`
-  );
+  await deployProxy(hre, "Comptroller", "Comptroller");
 }
 
 // We recommend this pattern to be able to use async/await everywhere
@@ -0,0 +1,409 @@
+import {
+    ContractRunner,
+    ContractTransactionReceipt,
+    ContractTransactionResponse,
+    Signer
+} from 'ethers';
+import {
+    ClErc20,
+    ClErc20__factory,
+    Comptroller,
+    Comptroller__factory,
+    IERC20Metadata,
+    IERC20Metadata__factory,
+    PriceOracle,
+    PriceOracle__factory
+} from '../typechain-types';
+import { getPendingClr } from './clr';
+import { AccountHealth, computeAccountHealth } from './health';
+import {
+    AccountLiquidity,
+    AccountPosition,
+    AssetSnapshot,
+    ClrMarketSnapshot,
+    MarketInfo,
+    MarketSnapshot,
+    PendingClr,
+    ProtocolAddresses
+} from './types';
+
+/**
+ * Typed access to a deployment of the protocol, for reads through any provider
+ * and user actions through a signer.
+ */
+export class ClusterClient {
+    readonly comptroller: Comptroller;
+    readonly priceOracle: PriceOracle;
+
+    private constructor(
+        readonly addresses: Required<ProtocolAddresses>,
+        readonly runner: ContractRunner
+    ) {
+        this.comptroller = Comptroller__factory.connect(addresses.comptroller, runner);
+        this.priceOracle = PriceOracle__factory.connect(addresses.priceOracle, runner);
+    }
+
+    /**
+     * Loads the protocol from its addresses, reading the price oracle from the comptroller
+     * when it is not given.
+     * @param runner A provider for reads only, or a signer to also send transactions
+     */
+    static async load(addresses: ProtocolAddresses, runner: ContractRunner) {
+        const priceOracle =
+            addresses.priceOracle ??
+            (await Comptroller__factory.connect(addresses.comptroller, runner).oracle());
+
+        return new ClusterClient({ ...addresses, priceOracle }, runner);
+    }
+
+    /**
+     * Returns a client for the same deployment using another provider or signer.
+     */
+    connect(runner: ContractRunner) {
+        return new ClusterClient(this.addresses, runner);
+    }
+
+    market(clToken: string): ClErc20 {
+        return ClErc20__factory.connect(clToken, this.runner);
+    }
+
+    async underlying(clToken: string): Promise<IERC20Metadata> {
+        const underlying = await this.market(clToken).underlying();
+        return IERC20Metadata__factory.connect(underlying, this.runner);
+    }
+
+    /*** Reads ***/
+
+    getAllMarkets(): Promise<string[]> {
+        return this.comptroller.getAllMarkets();
+    }
+
+    async getMarketInfo(clToken: string): Promise<MarketInfo> {
+        const market = this.market(clToken);
+        const underlying = await this.underlying(clToken);
+
+        const [isListed, collateralFactor] = await this.comptroller.getMarketInfo(clToken);
+        const [
+            symbol,
+            decimals,
+            underlyingSymbol,
+            underlyingDecimals,
+            reserveFactor,
+            exchangeRate,
+            underlyingPrice,
+            borrowRatePerBlock,
+            supplyRatePerBlock,
+            cash,
+            totalBorrows,
+            totalReserves,
+            totalSupply
+        ] = await Promise.all([
+            market.symbol(),
+            market.decimals(),
+            underlying.symbol(),
+            underlying.decimals(),
+            market.reserveFactorMantissa(),
+            market.exchangeRateStored(),
+            this.priceOracle.getUnderlyingPrice(clToken),
+            market.borrowRatePerBlock(),
+            market.supplyRatePerBlock(),
+            market.getCash(),
+            market.totalBorrows(),
+            market.totalReserves(),
+            market.totalSupply()
+        ]);
+
+        return {
+            address: await market.getAddress(),
+            symbol,
+            decimals: Number(decimals),
+            underlying: await underlying.getAddress(),
+            underlyingSymbol,
+            underlyingDecimals: Number(underlyingDecimals),
+            isListed,
+            collateralFactor,
+            reserveFactor,
+            exchangeRate,
+            underlyingPrice,
+            borrowRatePerBlock,
+            supplyRatePerBlock,
+            cash,
+            totalBorrows,
+            totalReserves,
+            totalSupply
+        };
+    }
+
+    async getMarkets(): Promise<MarketInfo[]> {
+        const markets = await this.getAllMarkets();
+        return Promise.all(markets.map(m => this.getMarketInfo(m)));
+    }
+
+    /**
+     * Price of the underlying of `clToken` as used by the comptroller,
+     * scaled by 1e(36 - underlying decimals).
+     */
+    getUnderlyingPrice(clToken: string): Promise<bigint> {
+        return this.priceOracle.getUnderlyingPrice(clToken);
+    }
+
+    /**
+     * Prices of the underlying of every market, keyed by clToken address.
+     */
+    async getPrices(): Promise<Record<string, bigint>> {
+        const markets = await this.getAllMarkets();
+        const prices = await Promise.all(markets.map(m => this.getUnderlyingPrice(m)));
+
+        return Object.fromEntries(markets.map((m, i) => [m, prices[i]]));
+    }
+
+    /**
+     * Supply and borrow of `account` in every market it has a balance, a borrow or entered,
+     * as of the last interest accrual of each market.
+     */
+    async getAccountPositions(account: string): Promise<AccountPosition[]> {
+        const [markets, assetsIn] = await Promise.all([
+            this.getAllMarkets(),
+            this.comptroller.getAssetsIn(account)
+        ]);
+
+        const positions = await Promise.all(
+            markets.map(async market => {
+                const [balance, borrowed, exchangeRate] = await this.market(
+                    market
+                ).getAccountSnapshot(account);
+
+                return {
+                    market,
+                    balance,
+                    supplied: (balance * exchangeRate) / 10n ** 18n,
+                    borrowed,
+                    isCollateral: assetsIn.includes(market)
+                };
+            })
+        );
+
+        return positions.filter(p => p.balance > 0n || p.borrowed > 0n || p.isCollateral);
+    }
+
+    async getAccountLiquidity(account: string): Promise<AccountLiquidity> {
+        const [liquidity, shortfall] = await this.comptroller.getAccountLiquidity(account);
+        return { liquidity, shortfall };
+    }
+
+    /**
+     * State of `clToken` as read by the comptroller's liquidity and seize computations.
+     */
+    async getMarketSnapshot(clToken: string): Promise<MarketSnapshot> {
+        const [[, collateralFactor], exchangeRate, price] = await Promise.all([
+            this.comptroller.getMarketInfo(clToken),
+            this.market(clToken).exchangeRateStored(),
+            this.getUnderlyingPrice(clToken)
+        ]);
+
+        return { clToken, collateralFactor, exchangeRate, price };
+    }
+
+    /**
+     * Snapshot of every market `account` entered, the input of the off-chain liquidity math.
+     */
+    async getAccountSnapshot(account: string): Promise<AssetSnapshot[]> {
+        const assets = await this.comptroller.getAssetsIn(account);
+
+        return Promise.all(
+            assets.map(async clToken => {
+                const [market, [clTokenBalance, borrowBalance]] = await Promise.all([
+                    this.getMarketSnapshot(clToken),
+                    this.market(clToken).getAccountSnapshot(account)
+                ]);
+
+                return { ...market, clTokenBalance, borrowBalance };
+            })
+        );
+    }
+
+    /**
+     * Per-market breakdown of the positions of `account` with its health factor and
+     * the price moves that would make it liquidatable.
+     */
+    async getAccountHealth(account: string): Promise<AccountHealth> {
+        const [positions, liquidity] = await Promise.all([
+            this.getAccountPositions(account),
+            this.getAccountLiquidity(account)
+        ]);
+        const markets = await Promise.all(positions.map(p => this.getMarketInfo(p.market)));
+
+        return computeAccountHealth(account, positions, markets, liquidity);
+    }
+
+    /**
+     * CLR distribution state of `account` in `clTokens`, every market by default,
+     * the input of the off-chain pending CLR math.
+     */
+    async getClrSnapshot(
+        account: string,
+        clTokens?: string[]
+    ): Promise<{ accrued: bigint; markets: ClrMarketSnapshot[] }> {
+        const [accrued, markets] = await Promise.all([
+            this.comptroller.clrAccrued(account),
+            clTokens ?? this.getAllMarkets()
+        ]);
+
+        const snapshots = await Promise.all(
+            markets.map(async clToken => {
+                const market = this.market(clToken);
+                const [
+                    [supplyIndex, supplyBlock],
+                    [borrowIndex, borrowBlock],
+                    supplySpeed,
+                    borrowSpeed,
+                    supplierIndex,
+                    borrowerIndex,
+                    totalSupply,
+                    totalBorrows,
+                    marketBorrowIndex,
+                    clTokenBalance,
+                    borrowBalance
+                ] = await Promise.all([
+                    this.comptroller.clrSupplyState(clToken),
+                    this.comptroller.clrBorrowState(clToken),
+                    this.comptroller.clrSupplySpeeds(clToken),
+                    this.comptroller.clrBorrowSpeeds(clToken),
+                    this.comptroller.clrSupplierIndex(clToken, account),
+                    this.comptroller.clrBorrowerIndex(clToken, account),
+                    market.totalSupply(),
+                    market.totalBorrows(),
+                    market.borrowIndex(),
+                    market.balanceOf(account),
+                    market.borrowBalanceStored(account)
+                ]);
+
+                return {
+                    clToken,
+                    supplyIndex,
+                    supplyBlock,
+                    supplySpeed,
+                    borrowIndex,
+                    borrowBlock,
+                    borrowSpeed,
+                    totalSupply,
+                    totalBorrows,
+                    marketBorrowIndex,
+                    supplierIndex,
+                    borrowerIndex,
+                    clTokenBalance,
+                    borrowBalance
+                };
+            })
+        );
+
+        return { accrued, markets: snapshots };
+    }
+
+    /**
+     * CLR accrued but not claimed by `account` in `clTokens`, every market by default.
+     * @param blockNumber Block of the claim, by default the next one
+     */
+    async getPendingClr(
+        account: string,
+        clTokens?: string[],
+        blockNumber?: bigint
+    ): Promise<PendingClr> {
+        const [{ accrued, markets }, latest] = await Promise.all([
+            this.getClrSnapshot(account, clTokens),
+            this.runner.provider!.getBlockNumber()
+        ]);
+
+        return getPendingClr(accrued, markets, blockNumber ?? BigInt(latest + 1));
+    }
+
+    /*** Actions ***/
+
+    enterMarkets(clTokens: string[]) {
+        return this.send(this.comptroller.enterMarkets(clTokens));
+    }
+
+    exitMarket(clToken: string) {
+        return this.send(this.comptroller.exitMarket(clToken));
+    }
+
+    /**
+     * Supplies `amount` of underlying, approving it first if needed.
+     */
+    async mint(clToken: string, amount: bigint) {
+        await this.approveUnderlying(clToken, amount);
+        return this.send(this.market(clToken).mint(amount));
+    }
+
+    /**
+     * Redeems `clTokens` clTokens for underlying.
+     */
+    redeem(clToken: string, clTokens: bigint) {
+        return this.send(this.market(clToken).redeem(clTokens));
+    }
+
+    /**
+     * Redeems clTokens for exactly `amount` of underlying.
+     */
+    redeemUnderlying(clToken: string, amount: bigint) {
+        return this.send(this.market(clToken).redeemUnderlying(amount));
+    }
+
+    borrow(clToken: string, amount: bigint) {
+        return this.send(this.market(clToken).borrow(amount));
+    }
+
+    /**
+     * Repays `amount` of underlying, approving it first if needed.
+     * `ethers.MaxUint256` repays the whole borrow.
+     */
+    async repayBorrow(clToken: string, amount: bigint) {
+        await this.approveUnderlying(clToken, amount);
+        return this.send(this.market(clToken).repayBorrow(amount));
+    }
+
+    /**
+     * Repays `repayAmount` of the borrow of `borrower` in `clToken` and seizes
+     * `clTokenCollateral` from them, approving the repaid underlying first if needed.
+     */
+    async liquidateBorrow(
+        clToken: string,
+        borrower: string,
+        repayAmount: bigint,
+        clTokenCollateral: string
+    ) {
+        await this.approveUnderlying(clToken, repayAmount);
+        return this.send(
+            this.market(clToken).liquidateBorrow(borrower, repayAmount, clTokenCollateral)
+        );
+    }
+
+    /**
+     * Claims the CLR of `holder` in `clTokens`, every market by default. Anyone can claim
+     * for a holder, the CLR is always transferred to the holder.
+     */
+    async claimClr(holder: string, clTokens?: string[]) {
+        // The markets read from the comptroller are a frozen Result, ethers cannot pass it back
+        const markets = clTokens ?? [...(await this.getAllMarkets())];
+        return this.send(this.comptroller['claimClr(address,address[])'](holder, markets));
+    }
+
+    private async approveUnderlying(clToken: string, amount: bigint) {
+        if (typeof this.runner.sendTransaction !== 'function') {
+            throw new Error('ClusterClient needs a signer to send transactions');
+        }
+
+        const underlying = await this.underlying(clToken);
+        const owner = await (this.runner as Signer).getAddress();
+
+        if ((await underlying.allowance(owner, clToken)) < amount) {
+            await this.send(underlying.approve(clToken, amount));
+        }
+    }
+
+    private async send(
+        tx: Promise<ContractTransactionResponse>
+    ): Promise<ContractTransactionReceipt> {
+        return (await (await tx).wait())!;
+    }
+}
@@ -0,0 +1,564 @@
+import Database from 'better-sqlite3';
+import { Interface, Log, LogDescription, getAddress } from 'ethers';
+import { ClErc20__factory, Comptroller__factory } from '../typechain-types';
+import { ClusterClient } from './ClusterClient';
+
+/** events of the markets, `Transfer` tracks the clToken balances */
+const MARKET_EVENTS = [
+    'AccrueInterest',
+    'Mint',
+    'Redeem',
+    'Borrow',
+    'RepayBorrow',
+    'LiquidateBorrow',
+    'Transfer'
+];
+const COMPTROLLER_EVENTS = [
+    'MarketEntered',
+    'MarketExited',
+    'DistributedSupplierClr',
+    'DistributedBorrowerClr'
+];
+
+const WAD = (10n ** 18n).toString();
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS checkpoints (
+        block_number INTEGER PRIMARY KEY,
+        block_hash TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS events (
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        address TEXT NOT NULL,
+        name TEXT NOT NULL,
+        account TEXT,
+        args TEXT NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS events_account ON events (account);
+    CREATE TABLE IF NOT EXISTS account_states (
+        account TEXT NOT NULL,
+        market TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        cl_token_balance TEXT NOT NULL,
+        borrow_balance TEXT NOT NULL,
+        borrow_index TEXT NOT NULL,
+        entered INTEGER NOT NULL,
+        clr_distributed TEXT NOT NULL,
+        PRIMARY KEY (account, market, block_number, log_index)
+    );
+    CREATE TABLE IF NOT EXISTS market_states (
+        market TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        total_supply TEXT NOT NULL,
+        total_borrows TEXT NOT NULL,
+        borrow_index TEXT NOT NULL,
+        PRIMARY KEY (market, block_number, log_index)
+    );
+`;
+
+export interface EventIndexerOptions {
+    /** first block to index, usually the deployment block of the comptroller */
+    fromBlock?: number;
+    /** blocks fetched per `eth_getLogs` request */
+    batchSize?: number;
+    /** blocks behind the head left unindexed, 0 follows the head and relies on rollbacks */
+    confirmations?: number;
+}
+
+export interface IndexedEvent {
+    blockNumber: number;
+    logIndex: number;
+    transactionHash: string;
+    /** market or comptroller emitting the event */
+    address: string;
+    name: string;
+    /** account the event is about, e.g. the minter or the borrower */
+    account: string | null;
+    /** decoded arguments, integers as decimal strings */
+    args: Record<string, string>;
+}
+
+/**
+ * State of an account in a market as of its latest event.
+ */
+export interface AccountMarketState {
+    account: string;
+    market: string;
+    blockNumber: number;
+    clTokenBalance: bigint;
+    /** borrow balance at `borrowIndex`, scale by the market's index for the current debt */
+    borrowBalance: bigint;
+    borrowIndex: bigint;
+    entered: boolean;
+    /** CLR accrued to the account as supplier and borrower of the market */
+    clrDistributed: bigint;
+}
+
+/**
+ * State of a market as of its latest event.
+ */
+export interface MarketState {
+    market: string;
+    blockNumber: number;
+    totalSupply: bigint;
+    totalBorrows: bigint;
+    borrowIndex: bigint;
+}
+
+export interface SyncResult {
+    fromBlock: number;
+    toBlock: number;
+    events: number;
+    /** block the index was rolled back to after a reorg */
+    rolledBackTo?: number;
+}
+
+interface Checkpoint {
+    block_number: number;
+    block_hash: string;
+}
+
+interface EventRow {
+    block_number: number;
+    log_index: number;
+    transaction_hash: string;
+    address: string;
+    name: string;
+    account: string | null;
+    args: string;
+}
+
+interface AccountRow {
+    cl_token_balance: string;
+    borrow_balance: string;
+    borrow_index: string;
+    entered: number;
+    clr_distributed: string;
+}
+
+interface MarketRow {
+    total_supply: string;
+    total_borrows: string;
+    borrow_index: string;
+}
+
+/**
+ * Indexes the activity of the protocol into a SQLite database: the decoded events of the
+ * markets and the comptroller, and the account and market state derived from them.
+ * Derived state is stored as one row per change, so a reorg is rolled back by deleting every
+ * row above the last block whose checkpointed hash is still on chain.
+ * Markets are those listed at each sync.
+ */
+export class EventIndexer {
+    readonly db: Database.Database;
+    private readonly marketInterface: Interface = ClErc20__factory.createInterface();
+    private readonly comptrollerInterface: Interface = Comptroller__factory.createInterface();
+    private readonly fromBlock: number;
+    private readonly batchSize: number;
+    private readonly confirmations: number;
+
+    /**
+     * @param client A client of the deployment to index
+     * @param file Path of the database, in memory by default
+     */
+    constructor(
+        readonly client: ClusterClient,
+        file = ':memory:',
+        options: EventIndexerOptions = {}
+    ) {
+        this.fromBlock = options.fromBlock ?? 0;
+        this.batchSize = options.batchSize ?? 2000;
+        this.confirmations = options.confirmations ?? 0;
+
+        this.db = new Database(file);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(SCHEMA);
+
+        const comptroller = getAddress(this.client.addresses.comptroller);
+        const indexed = this.db
+            .prepare<[], { value: string }>("SELECT value FROM meta WHERE key = 'comptroller'")
+            .get();
+        if (indexed === undefined) {
+            this.db
+                .prepare("INSERT INTO meta (key, value) VALUES ('comptroller', ?)")
+                .run(comptroller);
+        } else if (indexed.value !== comptroller) {
+            throw new Error(`${file} indexes the comptroller ${indexed.value}, not ${comptroller}`);
+        }
+    }
+
+    /** last indexed block, `undefined` before the first sync */
+    get lastBlock(): number | undefined {
+        const row = this.db
+            .prepare<[], { block_number: number }>(
+                'SELECT block_number FROM checkpoints ORDER BY block_number DESC LIMIT 1'
+            )
+            .get();
+        return row?.block_number;
+    }
+
+    /**
+     * Rolls back a reorg if the last checkpoint left the chain, then indexes every block up to
+     * the head minus the confirmations.
+     */
+    async sync(): Promise<SyncResult> {
+        const provider = this.client.runner.provider!;
+        const rolledBackTo = await this.detectReorg();
+
+        const head = (await provider.getBlockNumber()) - this.confirmations;
+        const fromBlock = (this.lastBlock ?? this.fromBlock - 1) + 1;
+        let events = 0;
+
+        for (let start = fromBlock; start <= head; start += this.batchSize) {
+            const end = Math.min(start + this.batchSize - 1, head);
+            events += await this.indexRange(start, end);
+        }
+
+        return { fromBlock, toBlock: Math.max(head, fromBlock - 1), events, rolledBackTo };
+    }
+
+    /**
+     * Deletes everything indexed after `blockNumber`.
+     */
+    rollback(blockNumber: number) {
+        this.db.transaction(() => {
+            for (const table of ['checkpoints', 'events', 'account_states', 'market_states']) {
+                this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(blockNumber);
+            }
+        })();
+    }
+
+    getEvents(filter: { name?: string; address?: string; account?: string } = {}): IndexedEvent[] {
+        const conditions: string[] = [];
+        const params: string[] = [];
+        for (const [column, value] of Object.entries(filter)) {
+            if (value === undefined) continue;
+            conditions.push(`${column} = ?`);
+            params.push(value);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        return this.db
+            .prepare<string[], EventRow>(
+                `SELECT * FROM events ${where} ORDER BY block_number, log_index`
+            )
+            .all(...params)
+            .map(row => ({
+                blockNumber: row.block_number,
+                logIndex: row.log_index,
+                transactionHash: row.transaction_hash,
+                address: row.address,
+                name: row.name,
+                account: row.account,
+                args: JSON.parse(row.args)
+            }));
+    }
+
+    getAccountState(account: string, market: string): AccountMarketState | undefined {
+        const row = this.db
+            .prepare<[string, string], AccountRow & { block_number: number }>(
+                `SELECT * FROM account_states WHERE account = ? AND market = ?
+                 ORDER BY block_number DESC, log_index DESC LIMIT 1`
+            )
+            .get(account, market);
+        if (row === undefined) return undefined;
+
+        return {
+            account,
+            market,
+            blockNumber: row.block_number,
+            clTokenBalance: BigInt(row.cl_token_balance),
+            borrowBalance: BigInt(row.borrow_balance),
+            borrowIndex: BigInt(row.borrow_index),
+            entered: row.entered === 1,
+            clrDistributed: BigInt(row.clr_distributed)
+        };
+    }
+
+    /**
+     * States of `account` in every market it has an event in.
+     */
+    getAccountStates(account: string): AccountMarketState[] {
+        return this.db
+            .prepare<[string], { market: string }>(
+                'SELECT DISTINCT market FROM account_states WHERE account = ? ORDER BY market'
+            )
+            .all(account)
+            .map(({ market }) => this.getAccountState(account, market)!);
+    }
+
+    getMarketState(market: string): MarketState | undefined {
+        const row = this.db
+            .prepare<[string], MarketRow & { block_number: number }>(
+                `SELECT * FROM market_states WHERE market = ?
+                 ORDER BY block_number DESC, log_index DESC LIMIT 1`
+            )
+            .get(market);
+        if (row === undefined) return undefined;
+
+        return {
+            market,
+            blockNumber: row.block_number,
+            totalSupply: BigInt(row.total_supply),
+            totalBorrows: BigInt(row.total_borrows),
+            borrowIndex: BigInt(row.borrow_index)
+        };
+    }
+
+    close() {
+        this.db.close();
+    }
+
+    /**
+     * Walks the checkpoints back to the newest one still on chain and rolls back to it.
+     * @returns The block rolled back to, `undefined` when the last checkpoint is on chain
+     */
+    private async detectReorg(): Promise<number | undefined> {
+        const provider = this.client.runner.provider!;
+        const previous = this.db.prepare<[number], Checkpoint>(
+            `SELECT block_number, block_hash FROM checkpoints WHERE block_number < ?
+             ORDER BY block_number DESC LIMIT 1`
+        );
+
+        let checkpoint = previous.get(Number.MAX_SAFE_INTEGER);
+        let reorged = false;
+        while (checkpoint !== undefined) {
+            const block = await provider.getBlock(checkpoint.block_number);
+            if (block?.hash === checkpoint.block_hash) break;
+            reorged = true;
+            checkpoint = previous.get(checkpoint.block_number);
+        }
+        if (!reorged) return undefined;
+
+        const blockNumber = checkpoint?.block_number ?? this.fromBlock - 1;
+        this.rollback(blockNumber);
+        return blockNumber;
+    }
+
+    private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+        const provider = this.client.runner.provider!;
+        const comptroller = getAddress(this.client.addresses.comptroller);
+        const markets = await this.client.getAllMarkets();
+
+        const topics = [
+            ...MARKET_EVENTS.map(name => this.marketInterface.getEvent(name)!.topicHash),
+            ...COMPTROLLER_EVENTS.map(name => this.comptrollerInterface.getEvent(name)!.topicHash)
+        ];
+        const [logs, block] = await Promise.all([
+            provider.getLogs({
+                address: [comptroller, ...markets],
+                topics: [topics],
+                fromBlock,
+                toBlock
+            }),
+            provider.getBlock(toBlock)
+        ]);
+
+        const insertCheckpoint = this.db.prepare(
+            'INSERT OR REPLACE INTO checkpoints (block_number, block_hash) VALUES (?, ?)'
+        );
+        this.db.transaction(() => {
+            for (const log of logs) {
+                const parsed = this.parse(log, comptroller);
+                if (parsed === null) continue;
+                this.apply(log, parsed);
+                insertCheckpoint.run(log.blockNumber, log.blockHash);
+            }
+            insertCheckpoint.run(toBlock, block!.hash);
+        })();
+
+        return logs.length;
+    }
+
+    private parse(log: Log, comptroller: string): LogDescription | null {
+        const emitter =
+            log.address === comptroller ? this.comptrollerInterface : this.marketInterface;
+        return emitter.parseLog(log);
+    }
+
+    /**
+     * Records the event and the state changes it implies.
+     */
+    private apply(log: Log, event: LogDescription) {
+        const { args } = event;
+        const market = log.address;
+        let account: string | null = null;
+
+        switch (event.name) {
+            case 'AccrueInterest':
+                this.updateMarket(log, market, m => ({
+                    ...m,
+                    total_borrows: args.totalBorrows.toString(),
+                    borrow_index: args.borrowIndex.toString()
+                }));
+                break;
+            case 'Mint':
+                account = args.minter;
+                break;
+            case 'Redeem':
+                account = args.redeemer;
+                break;
+            case 'Borrow':
+            case 'RepayBorrow': {
+                account = args.borrower;
+                const { borrow_index } = this.currentMarket(market);
+                this.updateMarket(log, market, m => ({
+                    ...m,
+                    total_borrows: args.totalBorrows.toString()
+                }));
+                this.updateAccount(log, account!, market, a => ({
+                    ...a,
+                    borrow_balance: args.accountBorrows.toString(),
+                    borrow_index
+                }));
+                break;
+            }
+            case 'LiquidateBorrow':
+                account = args.borrower;
+                break;
+            case 'Transfer': {
+                const { from, to, amount } = args;
+                // The market itself is the source of minted and the destination of burned tokens
+                if (from === market || to === market) {
+                    this.updateMarket(log, market, m => ({
+                        ...m,
+                        total_supply: (
+                            BigInt(m.total_supply) + (from === market ? amount : -amount)
+                        ).toString()
+                    }));
+                }
+                for (const [holder, delta] of [
+                    [from, -amount],
+                    [to, amount]
+                ] as [string, bigint][]) {
+                    if (holder === market) continue;
+                    this.updateAccount(log, holder, market, a => ({
+                        ...a,
+                        cl_token_balance: (BigInt(a.cl_token_balance) + delta).toString()
+                    }));
+                }
+                account = from === market ? to : from;
+                break;
+            }
+            case 'MarketEntered':
+            case 'MarketExited':
+                account = args.account;
+                this.updateAccount(log, account!, args.clToken, a => ({
+                    ...a,
+                    entered: event.name === 'MarketEntered' ? 1 : 0
+                }));
+                break;
+            case 'DistributedSupplierClr':
+            case 'DistributedBorrowerClr': {
+                account = event.name === 'DistributedSupplierClr' ? args.supplier : args.borrower;
+                this.updateAccount(log, account!, args.clToken, a => ({
+                    ...a,
+                    clr_distributed: (BigInt(a.clr_distributed) + args.clrDelta).toString()
+                }));
+                break;
+            }
+        }
+
+        this.db
+            .prepare(
+                `INSERT INTO events
+                 (block_number, log_index, transaction_hash, address, name, account, args)
+                 VALUES (?, ?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+                log.blockNumber,
+                log.index,
+                log.transactionHash,
+                log.address,
+                event.name,
+                account,
+                JSON.stringify(
+                    Object.fromEntries(
+                        event.fragment.inputs.map((input, i) => [input.name, args[i].toString()])
+                    )
+                )
+            );
+    }
+
+    private currentMarket(market: string): MarketRow {
+        return (
+            this.db
+                .prepare<[string], MarketRow>(
+                    `SELECT total_supply, total_borrows, borrow_index FROM market_states
+                     WHERE market = ? ORDER BY block_number DESC, log_index DESC LIMIT 1`
+                )
+                // A new market starts at a borrow index of 1, only its accruals emit events
+                .get(market) ?? { total_supply: '0', total_borrows: '0', borrow_index: WAD }
+        );
+    }
+
+    private updateMarket(log: Log, market: string, update: (row: MarketRow) => MarketRow) {
+        const row = update(this.currentMarket(market));
+        this.db
+            .prepare(
+                `INSERT OR REPLACE INTO market_states
+                 (market, block_number, log_index, total_supply, total_borrows, borrow_index)
+                 VALUES (?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+                market,
+                log.blockNumber,
+                log.index,
+                row.total_supply,
+                row.total_borrows,
+                row.borrow_index
+            );
+    }
+
+    private updateAccount(
+        log: Log,
+        account: string,
+        market: string,
+        update: (row: AccountRow) => AccountRow
+    ) {
+        const current = this.db
+            .prepare<[string, string], AccountRow>(
+                `SELECT cl_token_balance, borrow_balance, borrow_index, entered, clr_distributed
+                 FROM account_states WHERE account = ? AND market = ?
+                 ORDER BY block_number DESC, log_index DESC LIMIT 1`
+            )
+            .get(account, market);
+        const row = update(
+            current ?? {
+                cl_token_balance: '0',
+                borrow_balance: '0',
+                borrow_index: '0',
+                entered: 0,
+                clr_distributed: '0'
+            }
+        );
+
+        this.db
+            .prepare(
+                `INSERT OR REPLACE INTO account_states
+                 (account, market, block_number, log_index, cl_token_balance, borrow_balance,
+                  borrow_index, entered, clr_distributed)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+                account,
+                market,
+                log.blockNumber,
+                log.index,
+                row.cl_token_balance,
+                row.borrow_balance,
+                row.borrow_index,
+                row.entered,
+                row.clr_distributed
+            );
+    }
+}
@@ -0,0 +1,194 @@
+import { ContractTransactionReceipt, Signer, ZeroAddress } from 'ethers';
+import { IERC20Metadata__factory, Leverage, Leverage__factory } from '../typechain-types';
+import { ClusterClient } from './ClusterClient';
+
+/** Balancer vault the Leverage contract flash loans from */
+export const BALANCER_VAULT = '0xBA12222222228d8Ba445958a75a0704d566BF2C8';
+
+const EXP_SCALE = 10n ** 18n;
+
+export interface LeverageOptions {
+    /** health factor the account must keep after the loop, above 1, defaults to 1.05 */
+    minHealthFactor?: number;
+    /** Balancer flash loan fee percentage scaled by 1e18, none is charged at the moment */
+    flashLoanFee?: bigint;
+}
+
+export interface LeveragePlan {
+    account: string;
+    token: string;
+    clToken: string;
+    /** underlying deposited */
+    amount: bigint;
+    /** underlying flash loaned, supplied and borrowed back */
+    borrowAmount: bigint;
+    /** largest safe `borrowAmount` */
+    maxBorrowAmount: bigint;
+    /** what limits `maxBorrowAmount` */
+    limitedBy: 'collateral' | 'vault liquidity' | 'borrow cap';
+    /** flash loan fee, borrowed on top of `borrowAmount` */
+    fee: bigint;
+    /** underlying the Leverage contract pulls from the account: deposit and loan repayment */
+    allowance: bigint;
+    /** whether the account must enter the market first */
+    enterMarket: boolean;
+    /** supply over deposit of the loop */
+    leverage: number;
+    /** collateral over borrows of the account after the loop, `null` without borrows */
+    healthFactor: number | null;
+}
+
+function toMantissa(value: number) {
+    return BigInt(Math.round(value * 1e9)) * 10n ** 9n;
+}
+
+/**
+ * Plans and opens leveraged positions through the Leverage contract: picks a borrow amount
+ * the comptroller and the Balancer vault accept and sets up the approvals and market entry
+ * `Leverage.loop` needs.
+ */
+export class LeveragePlanner {
+    readonly leverage: Leverage;
+
+    constructor(readonly client: ClusterClient, leverage: string) {
+        this.leverage = Leverage__factory.connect(leverage, client.runner);
+    }
+
+    /**
+     * Plans a loop depositing `amount` of `token` for `account`.
+     * @param multiple Target supply over deposit, the largest safe one when omitted
+     * @throws When the market cannot be looped or the target needs more than the safe borrow
+     */
+    async plan(
+        account: string,
+        token: string,
+        amount: bigint,
+        multiple?: number,
+        { minHealthFactor = 1.05, flashLoanFee = 0n }: LeverageOptions = {}
+    ): Promise<LeveragePlan> {
+        if (minHealthFactor <= 1) throw new Error('The minimum health factor must be above 1');
+        if (multiple !== undefined && multiple < 1) throw new Error('Leverage must be at least 1x');
+
+        const { comptroller } = this.client;
+        const leverageAddress = await this.leverage.getAddress();
+
+        const [allowed, clToken, comptrollerLeverage] = await Promise.all([
+            this.leverage.allowedTokens(token),
+            this.leverage.clTokenMapping(token),
+            comptroller.leverageAddress()
+        ]);
+        if (!allowed || clToken === ZeroAddress) {
+            throw new Error(`Token ${token} is not allowed for leverage`);
+        }
+        if (comptrollerLeverage !== leverageAddress) {
+            throw new Error(`Comptroller only lets ${comptrollerLeverage} borrow on behalf`);
+        }
+
+        const underlying = IERC20Metadata__factory.connect(token, this.client.runner);
+        const [market, health, borrowCap, vaultBalance] = await Promise.all([
+            this.client.getMarketInfo(clToken),
+            this.client.getAccountHealth(account),
+            comptroller.borrowCaps(clToken),
+            underlying.balanceOf(BALANCER_VAULT)
+        ]);
+        if (!market.isListed) throw new Error(`Market ${clToken} is not listed`);
+        if (market.underlyingPrice === 0n) throw new Error(`No price for ${market.symbol}`);
+
+        const position = health.markets.find(m => m.market === clToken);
+        const enterMarket = position === undefined || !position.isCollateral;
+
+        // Values below are in USD scaled by 1e18, times 1e18 for the per underlying ones
+        const price = market.underlyingPrice;
+        const collateralPerUnit = (price * market.collateralFactor) / EXP_SCALE;
+        const borrowPerUnit = (price * (EXP_SCALE + flashLoanFee)) / EXP_SCALE;
+        const healthFactor = toMantissa(minHealthFactor);
+
+        let collateral = health.totalCollateral;
+        if (enterMarket && position !== undefined) {
+            collateral += (position.suppliedValue * market.collateralFactor) / EXP_SCALE;
+        }
+
+        // collateral + (amount + borrow) * collateralPerUnit >= minHealthFactor * (borrowed +
+        // borrow * borrowPerUnit), solved for borrow
+        const headroom =
+            collateral * EXP_SCALE +
+            amount * collateralPerUnit -
+            healthFactor * health.totalBorrowed;
+        const cost = (healthFactor * borrowPerUnit) / EXP_SCALE - collateralPerUnit;
+        const maxByCollateral = headroom <= 0n ? 0n : headroom / cost;
+
+        const limits: [bigint, LeveragePlan['limitedBy']][] = [
+            [maxByCollateral, 'collateral'],
+            [vaultBalance, 'vault liquidity']
+        ];
+        if (borrowCap > 0n) {
+            // the comptroller requires totalBorrows + borrow + fee < borrowCap
+            const room = borrowCap - market.totalBorrows - 1n;
+            limits.push([
+                room <= 0n ? 0n : (room * EXP_SCALE) / (EXP_SCALE + flashLoanFee),
+                'borrow cap'
+            ]);
+        }
+        const [maxBorrowAmount, limitedBy] = limits.reduce((a, b) => (b[0] < a[0] ? b : a));
+
+        const borrowAmount =
+            multiple === undefined
+                ? maxBorrowAmount
+                : (amount * toMantissa(multiple - 1)) / EXP_SCALE;
+        if (borrowAmount > maxBorrowAmount) {
+            throw new Error(
+                `Borrowing ${borrowAmount} exceeds the safe maximum of ${maxBorrowAmount}, ` +
+                    `limited by ${limitedBy}`
+            );
+        }
+
+        // Balancer rounds the fee up
+        const fee = (borrowAmount * flashLoanFee + EXP_SCALE - 1n) / EXP_SCALE;
+        const collateralAfter =
+            collateral + ((amount + borrowAmount) * collateralPerUnit) / EXP_SCALE;
+        const borrowedAfter = health.totalBorrowed + ((borrowAmount + fee) * price) / EXP_SCALE;
+
+        return {
+            account,
+            token,
+            clToken,
+            amount,
+            borrowAmount,
+            maxBorrowAmount,
+            limitedBy,
+            fee,
+            allowance: amount + borrowAmount + fee,
+            enterMarket,
+            leverage: amount > 0n ? Number(amount + borrowAmount) / Number(amount) : 1,
+            healthFactor:
+                borrowedAfter > 0n ? Number(collateralAfter) / Number(borrowedAfter) : null
+        };
+    }
+
+    /**
+     * Approves the Leverage contract, enters the market if needed, simulates the loop and
+     * sends it from the account of `plan`, which must be the signer of the client.
+     */
+    async open(plan: LeveragePlan): Promise<ContractTransactionReceipt> {
+        if (typeof this.client.runner.sendTransaction !== 'function') {
+            throw new Error('LeveragePlanner needs a signer to send transactions');
+        }
+        const signer = this.client.runner as Signer;
+        if ((await signer.getAddress()) !== plan.account) {
+            throw new Error(`The plan is for ${plan.account}, not the signer`);
+        }
+
+        const leverageAddress = await this.leverage.getAddress();
+        const underlying = IERC20Metadata__factory.connect(plan.token, signer);
+        if ((await underlying.allowance(plan.account, leverageAddress)) < plan.allowance) {
+            await (await underlying.approve(leverageAddress, plan.allowance)).wait();
+        }
+        if (plan.enterMarket) await this.client.enterMarkets([plan.clToken]);
+
+        // Surfaces the revert reason before paying for a failing transaction
+        await this.leverage.loop.staticCall(plan.token, plan.amount, plan.borrowAmount);
+
+        const tx = await this.leverage.loop(plan.token, plan.amount, plan.borrowAmount);
+        return (await tx.wait())!;
+    }
+}
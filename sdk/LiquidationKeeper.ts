@@ -0,0 +1,209 @@
+import { ContractTransactionReceipt, Signer } from 'ethers';
+import { ClusterClient } from './ClusterClient';
+import { mulScalarTruncate } from './exponential';
+import { AssetSnapshot } from './types';
+
+export interface LiquidationPlan {
+    borrower: string;
+    /** market repaid */
+    clTokenBorrowed: string;
+    /** market seized */
+    clTokenCollateral: string;
+    /** underlying amount of `clTokenBorrowed` repaid */
+    repayAmount: bigint;
+    /** `clTokenCollateral` tokens seized, as estimated by the comptroller */
+    seizeTokens: bigint;
+    /** USD value of the repaid amount, scaled by 1e18 */
+    repayValue: bigint;
+}
+
+export interface LiquidationResult {
+    borrower: string;
+    /** undefined when reading the account or planning its liquidation failed */
+    plan?: LiquidationPlan;
+    receipt?: ContractTransactionReceipt;
+    error?: Error;
+}
+
+/**
+ * Liquidates the accounts in shortfall using the underlying held by its signer.
+ * Borrowers are discovered from the `Borrow` events of every market, each run then
+ * liquidates the pair of markets repaying the most value allowed by the close factor,
+ * the liquidator's balance and the collateral of the borrower.
+ */
+export class LiquidationKeeper {
+    /** accounts that borrowed at least once, checksummed */
+    readonly borrowers = new Set<string>();
+    private nextBlock: number;
+
+    /**
+     * @param client A client connected to the signer repaying the borrows
+     * @param fromBlock First block to scan for `Borrow` events, usually the deployment block
+     * @param batchSize Blocks fetched per `eth_getLogs` request
+     */
+    constructor(
+        readonly client: ClusterClient,
+        fromBlock = 0,
+        private readonly batchSize = 2000
+    ) {
+        if (typeof client.runner.sendTransaction !== 'function') {
+            throw new Error('LiquidationKeeper needs a signer to send transactions');
+        }
+        this.nextBlock = fromBlock;
+    }
+
+    /**
+     * Adds the borrowers of the `Borrow` events emitted since the last sync.
+     * @returns The borrowers not seen before
+     */
+    async syncBorrowers(): Promise<string[]> {
+        const toBlock = await this.client.runner.provider!.getBlockNumber();
+        if (toBlock < this.nextBlock) return [];
+
+        const markets = (await this.client.getAllMarkets()).map(m => this.client.market(m));
+        const found: string[] = [];
+        for (let start = this.nextBlock; start <= toBlock; start += this.batchSize) {
+            const end = Math.min(start + this.batchSize - 1, toBlock);
+
+            for (const market of markets) {
+                const events = await market.queryFilter(market.filters.Borrow(), start, end);
+
+                for (const { args } of events) {
+                    if (this.borrowers.has(args.borrower)) continue;
+                    this.borrowers.add(args.borrower);
+                    found.push(args.borrower);
+                }
+            }
+            this.nextBlock = end + 1;
+        }
+
+        return found;
+    }
+
+    /**
+     * Known borrowers the comptroller reports a shortfall for.
+     */
+    async findShortfalls(): Promise<string[]> {
+        const borrowers = [...this.borrowers];
+        const liquidities = await Promise.all(
+            borrowers.map(b => this.client.getAccountLiquidity(b))
+        );
+
+        return borrowers.filter((_, i) => liquidities[i].shortfall > 0n);
+    }
+
+    /**
+     * Picks the repay and seize markets liquidating the most value from `borrower`.
+     * @returns `undefined` when the liquidator cannot repay any borrow of `borrower`
+     */
+    async planLiquidation(borrower: string): Promise<LiquidationPlan | undefined> {
+        const liquidator = await (this.client.runner as Signer).getAddress();
+        if (liquidator === borrower) return undefined;
+
+        const [closeFactor, assets] = await Promise.all([
+            this.client.comptroller.closeFactorMantissa(),
+            this.client.getAccountSnapshot(borrower)
+        ]);
+        const borrows = assets.filter(a => a.borrowBalance > 0n);
+        const collaterals = assets.filter(a => a.clTokenBalance > 0n);
+
+        let best: LiquidationPlan | undefined;
+        for (const borrowed of borrows) {
+            const underlying = await this.client.underlying(borrowed.clToken);
+            const balance = await underlying.balanceOf(liquidator);
+            // The comptroller caps the repaid amount of the accrued borrow, which is at
+            // least the stored one
+            const maxClose = mulScalarTruncate(closeFactor, borrowed.borrowBalance);
+            const maxRepay = balance < maxClose ? balance : maxClose;
+            if (maxRepay === 0n) continue;
+
+            for (const collateral of collaterals) {
+                const plan = await this.sizeLiquidation(borrower, borrowed, collateral, maxRepay);
+                if (plan === undefined) continue;
+                if (best === undefined || plan.repayValue > best.repayValue) best = plan;
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Submits `liquidateBorrow` for `plan`.
+     */
+    liquidate(plan: LiquidationPlan): Promise<ContractTransactionReceipt> {
+        return this.client.liquidateBorrow(
+            plan.clTokenBorrowed,
+            plan.borrower,
+            plan.repayAmount,
+            plan.clTokenCollateral
+        );
+    }
+
+    /**
+     * Syncs the borrowers and liquidates each one in shortfall once. A borrower that cannot be
+     * read or planned for, e.g. when the price of one of its markets reverts, or a failed
+     * liquidation is reported in its result and does not stop the others.
+     */
+    async run(): Promise<LiquidationResult[]> {
+        await this.syncBorrowers();
+
+        const results: LiquidationResult[] = [];
+        for (const borrower of this.borrowers) {
+            let plan: LiquidationPlan | undefined;
+            try {
+                const { shortfall } = await this.client.getAccountLiquidity(borrower);
+                if (shortfall === 0n) continue;
+                plan = await this.planLiquidation(borrower);
+            } catch (error) {
+                results.push({ borrower, error: error as Error });
+                continue;
+            }
+            if (plan === undefined) continue;
+
+            try {
+                results.push({ borrower, plan, receipt: await this.liquidate(plan) });
+            } catch (error) {
+                results.push({ borrower, plan, error: error as Error });
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Repays up to `maxRepay`, less when the seized tokens would exceed the collateral
+     * balance of `borrower`, which makes the liquidation revert.
+     */
+    private async sizeLiquidation(
+        borrower: string,
+        borrowed: AssetSnapshot,
+        collateral: AssetSnapshot,
+        maxRepay: bigint
+    ): Promise<LiquidationPlan | undefined> {
+        const seize = (repayAmount: bigint) =>
+            this.client.comptroller.liquidateCalculateSeizeTokens(
+                borrowed.clToken,
+                collateral.clToken,
+                repayAmount
+            );
+
+        let repayAmount = maxRepay;
+        let seizeTokens = await seize(repayAmount);
+        if (seizeTokens > collateral.clTokenBalance) {
+            // seizeTokens is the truncation of a linear function of repayAmount,
+            // dividing by one more token keeps the new estimate within the balance
+            repayAmount = (repayAmount * collateral.clTokenBalance) / (seizeTokens + 1n);
+            seizeTokens = await seize(repayAmount);
+        }
+        if (repayAmount === 0n || seizeTokens === 0n) return undefined;
+
+        return {
+            borrower,
+            clTokenBorrowed: borrowed.clToken,
+            clTokenCollateral: collateral.clToken,
+            repayAmount,
+            seizeTokens,
+            repayValue: mulScalarTruncate(borrowed.price, repayAmount)
+        };
+    }
+}
@@ -0,0 +1,82 @@
+import { divScalarByExp, fraction, mulScalarDouble } from './exponential';
+import { ClrMarketSnapshot, PendingClr } from './types';
+
+/** `Comptroller.clrInitialIndex`, scaled by 1e36 */
+export const CLR_INITIAL_INDEX = 10n ** 36n;
+
+/**
+ * Off-chain `Comptroller.updateClrSupplyIndex`: the supply index of the market at `blockNumber`.
+ */
+export function getClrSupplyIndex(market: ClrMarketSnapshot, blockNumber: bigint): bigint {
+    const deltaBlocks = blockNumber - market.supplyBlock;
+    if (deltaBlocks <= 0n || market.supplySpeed === 0n) return market.supplyIndex;
+
+    const clrAccrued = deltaBlocks * market.supplySpeed;
+    const ratio = market.totalSupply > 0n ? fraction(clrAccrued, market.totalSupply) : 0n;
+    return market.supplyIndex + ratio;
+}
+
+/**
+ * Off-chain `Comptroller.updateClrBorrowIndex`: the borrow index of the market at `blockNumber`,
+ * with the market's stored interest index as `claimClr` passes it.
+ */
+export function getClrBorrowIndex(market: ClrMarketSnapshot, blockNumber: bigint): bigint {
+    const deltaBlocks = blockNumber - market.borrowBlock;
+    if (deltaBlocks <= 0n || market.borrowSpeed === 0n) return market.borrowIndex;
+
+    const borrowAmount = divScalarByExp(market.totalBorrows, market.marketBorrowIndex);
+    const clrAccrued = deltaBlocks * market.borrowSpeed;
+    const ratio = borrowAmount > 0n ? fraction(clrAccrued, borrowAmount) : 0n;
+    return market.borrowIndex + ratio;
+}
+
+/**
+ * Off-chain `Comptroller.distributeSupplierClr` at `supplyIndex`.
+ */
+export function getSupplierClr(market: ClrMarketSnapshot, supplyIndex: bigint): bigint {
+    // A supplier from before the market's rewards started accrues from the initial index
+    const supplierIndex =
+        market.supplierIndex === 0n && supplyIndex >= CLR_INITIAL_INDEX
+            ? CLR_INITIAL_INDEX
+            : market.supplierIndex;
+
+    return mulScalarDouble(market.clTokenBalance, supplyIndex - supplierIndex);
+}
+
+/**
+ * Off-chain `Comptroller.distributeBorrowerClr` at `borrowIndex`.
+ */
+export function getBorrowerClr(market: ClrMarketSnapshot, borrowIndex: bigint): bigint {
+    const borrowerIndex =
+        market.borrowerIndex === 0n && borrowIndex >= CLR_INITIAL_INDEX
+            ? CLR_INITIAL_INDEX
+            : market.borrowerIndex;
+    const borrowerAmount = divScalarByExp(market.borrowBalance, market.marketBorrowIndex);
+
+    return mulScalarDouble(borrowerAmount, borrowIndex - borrowerIndex);
+}
+
+/**
+ * CLR `claimClr(holder, clTokens)` would transfer if mined at `blockNumber`: the accrued
+ * CLR plus what each market distributes to the holder on the way.
+ * Contributor rewards only count once `updateContributorRewards` moved them to `accrued`.
+ * @param accrued `clrAccrued` of the holder
+ * @param markets The markets claimed in
+ */
+export function getPendingClr(
+    accrued: bigint,
+    markets: ClrMarketSnapshot[],
+    blockNumber: bigint
+): PendingClr {
+    const pending = markets.map(market => ({
+        clToken: market.clToken,
+        supply: getSupplierClr(market, getClrSupplyIndex(market, blockNumber)),
+        borrow: getBorrowerClr(market, getClrBorrowIndex(market, blockNumber))
+    }));
+
+    return {
+        markets: pending,
+        accrued,
+        total: pending.reduce((sum, m) => sum + m.supply + m.borrow, accrued)
+    };
+}
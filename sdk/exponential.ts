@@ -0,0 +1,64 @@
+/**
+ * Fixed-point math of `ExponentialNoError` on bigints, with the same truncations and the
+ * same failures as solidity 0.8 checked arithmetic, so results agree with the contracts to the wei.
+ * Exp values are represented by their mantissa, scaled by 1e18, and Double values by
+ * theirs, scaled by 1e36.
+ */
+
+export const EXP_SCALE = 10n ** 18n;
+export const DOUBLE_SCALE = 10n ** 36n;
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+function checked(value: bigint): bigint {
+    if (value < 0n || value > MAX_UINT256) throw new Error('Arithmetic overflow');
+    return value;
+}
+
+/**
+ * Truncates an Exp to a whole number, e.g. truncate(15e18) = 15.
+ */
+export function truncate(exp: bigint): bigint {
+    return exp / EXP_SCALE;
+}
+
+/** `mul_(Exp, Exp)` */
+export function mulExp(a: bigint, b: bigint): bigint {
+    return checked(a * b) / EXP_SCALE;
+}
+
+/** `mul_(Exp, uint)` */
+export function mulExpScalar(a: bigint, scalar: bigint): bigint {
+    return checked(a * scalar);
+}
+
+/** `div_(Exp, Exp)` */
+export function divExp(a: bigint, b: bigint): bigint {
+    if (b === 0n) throw new Error('Division by zero');
+    return checked(a * EXP_SCALE) / b;
+}
+
+export function mulScalarTruncate(a: bigint, scalar: bigint): bigint {
+    return truncate(mulExpScalar(a, scalar));
+}
+
+export function mulScalarTruncateAddUInt(a: bigint, scalar: bigint, addend: bigint): bigint {
+    return checked(mulScalarTruncate(a, scalar) + addend);
+}
+
+/** `div_(uint, Exp)` */
+export function divScalarByExp(scalar: bigint, b: bigint): bigint {
+    if (b === 0n) throw new Error('Division by zero');
+    return checked(scalar * EXP_SCALE) / b;
+}
+
+/** `fraction(uint, uint)`, a Double */
+export function fraction(a: bigint, b: bigint): bigint {
+    if (b === 0n) throw new Error('Division by zero');
+    return checked(a * DOUBLE_SCALE) / b;
+}
+
+/** `mul_(uint, Double)` */
+export function mulScalarDouble(scalar: bigint, b: bigint): bigint {
+    return checked(scalar * b) / DOUBLE_SCALE;
+}
@@ -0,0 +1,116 @@
+import { AccountLiquidity, AccountPosition, MarketInfo } from './types';
+
+const EXP_SCALE = 10n ** 18n;
+
+export interface MarketHealth extends AccountPosition {
+    symbol: string;
+    underlyingSymbol: string;
+    underlyingDecimals: number;
+    collateralFactor: bigint;
+    underlyingPrice: bigint;
+    /** USD values below are scaled by 1e18 */
+    suppliedValue: bigint;
+    borrowedValue: bigint;
+    /** supplied value weighted by the collateral factor, 0 when the market is not entered */
+    collateralValue: bigint;
+}
+
+export interface PriceMove {
+    /** address of the clToken */
+    market: string;
+    /**
+     * Relative price change of the market's underlying, everything else unchanged, after
+     * which the account becomes liquidatable. Follows the net exposure to the market,
+     * collateral value less borrowed value: negative when it is net collateral, positive when
+     * it is net borrowed. `null` when the price of this market alone cannot make the account
+     * liquidatable.
+     */
+    change: number | null;
+}
+
+export interface AccountHealth extends AccountLiquidity {
+    account: string;
+    markets: MarketHealth[];
+    /** USD values below are scaled by 1e18 */
+    totalSupplied: bigint;
+    totalCollateral: bigint;
+    totalBorrowed: bigint;
+    /** collateral over borrows, `null` without borrows */
+    healthFactor: number | null;
+    /** relative drop of every collateral price together that makes the account liquidatable */
+    collateralPriceDrop: number | null;
+    priceMoves: PriceMove[];
+}
+
+/**
+ * Breaks the liquidity of an account down per market.
+ * Values follow the comptroller's math but are rounded per market, `liquidity` and
+ * `shortfall` are the comptroller's own figures.
+ * @param markets Info of every market the account has a position in
+ */
+export function computeAccountHealth(
+    account: string,
+    positions: AccountPosition[],
+    markets: MarketInfo[],
+    { liquidity, shortfall }: AccountLiquidity
+): AccountHealth {
+    const marketHealths = positions.map(position => {
+        const market = markets.find(m => m.address === position.market);
+        if (market === undefined) throw new Error(`Missing info of market ${position.market}`);
+
+        const suppliedValue = (position.supplied * market.underlyingPrice) / EXP_SCALE;
+        const borrowedValue = (position.borrowed * market.underlyingPrice) / EXP_SCALE;
+
+        return {
+            ...position,
+            symbol: market.symbol,
+            underlyingSymbol: market.underlyingSymbol,
+            underlyingDecimals: market.underlyingDecimals,
+            collateralFactor: market.collateralFactor,
+            underlyingPrice: market.underlyingPrice,
+            suppliedValue,
+            borrowedValue,
+            collateralValue: position.isCollateral
+                ? (suppliedValue * market.collateralFactor) / EXP_SCALE
+                : 0n
+        };
+    });
+
+    const sum = (values: bigint[]) => values.reduce((a, b) => a + b, 0n);
+    const totalSupplied = sum(marketHealths.map(m => m.suppliedValue));
+    const totalCollateral = sum(marketHealths.map(m => m.collateralValue));
+    const totalBorrowed = sum(marketHealths.map(m => m.borrowedValue));
+
+    // Room left before liquidation, negative when already liquidatable
+    const headroom = Number(totalCollateral - totalBorrowed);
+    const priceMoves = marketHealths
+        .filter(m => m.collateralValue > 0n || m.borrowedValue > 0n)
+        .map(m => {
+            // Collateral and borrows of a market, e.g. a leveraged loop, move with the same price
+            const net = Number(m.collateralValue - m.borrowedValue);
+            if (net === 0) return { market: m.market, change: null };
+            if (headroom <= 0) return { market: m.market, change: 0 };
+
+            // Liquidatable once headroom + change * net < 0, prices cannot drop by 100% or more
+            const change = -headroom / net;
+            return { market: m.market, change: change > -1 ? change : null };
+        });
+
+    const hasBorrows = totalBorrowed > 0n;
+
+    return {
+        account,
+        markets: marketHealths,
+        totalSupplied,
+        totalCollateral,
+        totalBorrowed,
+        liquidity,
+        shortfall,
+        healthFactor: hasBorrows ? Number(totalCollateral) / Number(totalBorrowed) : null,
+        collateralPriceDrop:
+            hasBorrows && totalCollateral > 0n
+                ? Math.max(headroom / Number(totalCollateral), 0)
+                : null,
+        priceMoves
+    };
+}
@@ -0,0 +1,10 @@
+export * from './ClusterClient';
+export * from './clr';
+export * from './EventIndexer';
+export * from './exponential';
+export * from './health';
+export * from './interest';
+export * from './LeveragePlanner';
+export * from './LiquidationKeeper';
+export * from './liquidity';
+export * from './types';
\ No newline at end of file
@@ -0,0 +1,93 @@
+import {
+    EXP_SCALE,
+    divExp,
+    mulExpScalar,
+    mulScalarTruncate,
+    mulScalarTruncateAddUInt
+} from './exponential';
+import { BorrowSnapshot, InterestSnapshot, JumpRateModelSnapshot } from './types';
+
+/** `ClToken.borrowRateMaxMantissa`, the highest borrow rate per block a market accrues at */
+export const BORROW_RATE_MAX = 5n * 10n ** 12n;
+
+/**
+ * Off-chain `JumpRateModel.utilizationRate`: `borrows / (cash + borrows - reserves)`.
+ */
+export function getUtilizationRate(cash: bigint, borrows: bigint, reserves: bigint): bigint {
+    if (borrows === 0n) return 0n;
+
+    const total = cash + borrows - reserves;
+    if (total < 0n) throw new Error('Arithmetic underflow');
+    return divExp(borrows, total);
+}
+
+/**
+ * Off-chain `JumpRateModel.getBorrowRate`, the borrow rate per block scaled by 1e18.
+ */
+export function getBorrowRate(
+    model: JumpRateModelSnapshot,
+    cash: bigint,
+    borrows: bigint,
+    reserves: bigint
+): bigint {
+    const util = getUtilizationRate(cash, borrows, reserves);
+    if (util <= model.kink) {
+        return (util * model.multiplierPerBlock) / EXP_SCALE + model.baseRatePerBlock;
+    }
+
+    const normalRate = (model.kink * model.multiplierPerBlock) / EXP_SCALE + model.baseRatePerBlock;
+    return ((util - model.kink) * model.jumpMultiplierPerBlock) / EXP_SCALE + normalRate;
+}
+
+/**
+ * Off-chain `ClToken.accrueInterest`: the state of the market once interest is accrued up to
+ * `blockNumber`, with the same truncations. Fails like the market when the borrow rate is
+ * above `BORROW_RATE_MAX`.
+ */
+export function accrueInterest(
+    market: InterestSnapshot,
+    model: JumpRateModelSnapshot,
+    blockNumber: bigint
+): InterestSnapshot {
+    if (blockNumber === market.accrualBlockNumber) return market;
+
+    const borrowRate = getBorrowRate(model, market.cash, market.totalBorrows, market.totalReserves);
+    if (borrowRate > BORROW_RATE_MAX) throw new Error('Borrow rate too high');
+
+    const simpleInterestFactor = mulExpScalar(borrowRate, blockNumber - market.accrualBlockNumber);
+    const interestAccumulated = mulScalarTruncate(simpleInterestFactor, market.totalBorrows);
+
+    return {
+        ...market,
+        totalBorrows: interestAccumulated + market.totalBorrows,
+        totalReserves: mulScalarTruncateAddUInt(
+            market.reserveFactor,
+            interestAccumulated,
+            market.totalReserves
+        ),
+        borrowIndex: mulScalarTruncateAddUInt(
+            simpleInterestFactor,
+            market.borrowIndex,
+            market.borrowIndex
+        ),
+        accrualBlockNumber: blockNumber
+    };
+}
+
+/**
+ * Off-chain `ClToken.borrowBalanceStored` of an account at the market's `borrowIndex`.
+ */
+export function getBorrowBalance(account: BorrowSnapshot, borrowIndex: bigint): bigint {
+    if (account.principal === 0n) return 0n;
+    return (account.principal * borrowIndex) / account.interestIndex;
+}
+
+/**
+ * Off-chain `ClToken.exchangeRateStored`.
+ */
+export function getExchangeRate(market: InterestSnapshot): bigint {
+    if (market.totalSupply === 0n) return market.initialExchangeRate;
+
+    const underlying = market.cash + market.totalBorrows - market.totalReserves;
+    return (underlying * EXP_SCALE) / market.totalSupply;
+}
@@ -0,0 +1,80 @@
+import { divExp, mulExp, mulScalarTruncate, mulScalarTruncateAddUInt } from './exponential';
+import { AccountLiquidity, AssetSnapshot, MarketSnapshot } from './types';
+
+/**
+ * Off-chain `Comptroller.getHypotheticalAccountLiquidityInternal`: the liquidity of an
+ * account if it redeemed `redeemTokens` of or borrowed `borrowAmount` from `clTokenModify`.
+ * @param assets The markets the account entered, in the order of `getAssetsIn()`
+ */
+export function getHypotheticalAccountLiquidity(
+    assets: AssetSnapshot[],
+    clTokenModify?: string,
+    redeemTokens = 0n,
+    borrowAmount = 0n
+): AccountLiquidity {
+    let sumCollateral = 0n;
+    let sumBorrowPlusEffects = 0n;
+
+    for (const asset of assets) {
+        if (asset.price === 0n) throw new Error(`Zero price for ${asset.clToken}`);
+
+        // Pre-compute a conversion factor from tokens -> ether (normalized price value)
+        const tokensToDenom = mulExp(
+            mulExp(asset.collateralFactor, asset.exchangeRate),
+            asset.price
+        );
+
+        sumCollateral = mulScalarTruncateAddUInt(
+            tokensToDenom,
+            asset.clTokenBalance,
+            sumCollateral
+        );
+        sumBorrowPlusEffects = mulScalarTruncateAddUInt(
+            asset.price,
+            asset.borrowBalance,
+            sumBorrowPlusEffects
+        );
+
+        if (asset.clToken.toLowerCase() === clTokenModify?.toLowerCase()) {
+            sumBorrowPlusEffects = mulScalarTruncateAddUInt(
+                tokensToDenom,
+                redeemTokens,
+                sumBorrowPlusEffects
+            );
+            sumBorrowPlusEffects = mulScalarTruncateAddUInt(
+                asset.price,
+                borrowAmount,
+                sumBorrowPlusEffects
+            );
+        }
+    }
+
+    return sumCollateral > sumBorrowPlusEffects
+        ? { liquidity: sumCollateral - sumBorrowPlusEffects, shortfall: 0n }
+        : { liquidity: 0n, shortfall: sumBorrowPlusEffects - sumCollateral };
+}
+
+/**
+ * Off-chain `Comptroller.getAccountLiquidity`.
+ */
+export function getAccountLiquidity(assets: AssetSnapshot[]): AccountLiquidity {
+    return getHypotheticalAccountLiquidity(assets);
+}
+
+/**
+ * Off-chain `Comptroller.liquidateCalculateSeizeTokens`: the collateral clTokens seized
+ * for repaying `actualRepayAmount` of the borrowed underlying.
+ */
+export function liquidateCalculateSeizeTokens(
+    borrowed: MarketSnapshot,
+    collateral: MarketSnapshot,
+    liquidationIncentive: bigint,
+    actualRepayAmount: bigint
+): bigint {
+    if (borrowed.price === 0n || collateral.price === 0n) return 0n;
+
+    const numerator = mulExp(liquidationIncentive, borrowed.price);
+    const denominator = mulExp(collateral.price, collateral.exchangeRate);
+
+    return mulScalarTruncate(divExp(numerator, denominator), actualRepayAmount);
+}
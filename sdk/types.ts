@@ -0,0 +1,156 @@
+/**
+ * Addresses the client loads the protocol from. The price oracle is read from the
+ * comptroller when omitted.
+ */
+export interface ProtocolAddresses {
+    comptroller: string;
+    priceOracle?: string;
+}
+
+export interface MarketInfo {
+    /** address of the clToken */
+    address: string;
+    symbol: string;
+    decimals: number;
+    underlying: string;
+    underlyingSymbol: string;
+    underlyingDecimals: number;
+    isListed: boolean;
+    /** mantissa scaled by 1e18 */
+    collateralFactor: bigint;
+    /** mantissa scaled by 1e18 */
+    reserveFactor: bigint;
+    /** underlying per clToken, scaled by 1e(18 + underlying decimals - decimals) */
+    exchangeRate: bigint;
+    /** USD price of the underlying from the oracle, scaled by 1e(36 - underlying decimals) */
+    underlyingPrice: bigint;
+    /** per block rates scaled by 1e18 */
+    borrowRatePerBlock: bigint;
+    supplyRatePerBlock: bigint;
+    /** underlying amounts */
+    cash: bigint;
+    totalBorrows: bigint;
+    totalReserves: bigint;
+    /** clToken amount */
+    totalSupply: bigint;
+}
+
+export interface AccountPosition {
+    /** address of the clToken */
+    market: string;
+    /** clToken balance */
+    balance: bigint;
+    /** underlying value of the clToken balance at the stored exchange rate */
+    supplied: bigint;
+    /** underlying amount borrowed, including interest up to the last accrual */
+    borrowed: bigint;
+    /** whether the account entered the market, i.e. its supply counts as collateral */
+    isCollateral: boolean;
+}
+
+export interface AccountLiquidity {
+    /** USD value, scaled by 1e18, the account can still borrow */
+    liquidity: bigint;
+    /** USD value, scaled by 1e18, the account is under water by */
+    shortfall: bigint;
+}
+
+/**
+ * State of a market the comptroller reads when computing liquidity and seized tokens.
+ */
+export interface MarketSnapshot {
+    /** address of the clToken */
+    clToken: string;
+    collateralFactor: bigint;
+    /** `exchangeRateStored()` */
+    exchangeRate: bigint;
+    /** `PriceOracle.getUnderlyingPrice()` */
+    price: bigint;
+}
+
+/**
+ * A market the account entered, with its `getAccountSnapshot()` balances.
+ */
+export interface AssetSnapshot extends MarketSnapshot {
+    clTokenBalance: bigint;
+    borrowBalance: bigint;
+}
+
+/**
+ * CLR distribution state of a market, and of an account in it, as read by `claimClr`.
+ */
+export interface ClrMarketSnapshot {
+    /** address of the clToken */
+    clToken: string;
+    /** `clrSupplyState`, the index scaled by 1e36 */
+    supplyIndex: bigint;
+    supplyBlock: bigint;
+    supplySpeed: bigint;
+    /** `clrBorrowState`, the index scaled by 1e36 */
+    borrowIndex: bigint;
+    borrowBlock: bigint;
+    borrowSpeed: bigint;
+    totalSupply: bigint;
+    totalBorrows: bigint;
+    /** `borrowIndex()` of the clToken, its interest index as of the last accrual */
+    marketBorrowIndex: bigint;
+    /** `clrSupplierIndex` and `clrBorrowerIndex` of the account */
+    supplierIndex: bigint;
+    borrowerIndex: bigint;
+    clTokenBalance: bigint;
+    /** `borrowBalanceStored()` */
+    borrowBalance: bigint;
+}
+
+export interface MarketPendingClr {
+    /** address of the clToken */
+    clToken: string;
+    supply: bigint;
+    borrow: bigint;
+}
+
+export interface PendingClr {
+    /** CLR accrued in each market since its last distribution to the account */
+    markets: MarketPendingClr[];
+    /** `clrAccrued`, distributed but not transferred yet */
+    accrued: bigint;
+    /** what `claimClr` over these markets would transfer */
+    total: bigint;
+}
+
+/**
+ * Per-block parameters of a `JumpRateModel`, mantissas scaled by 1e18.
+ */
+export interface JumpRateModelSnapshot {
+    baseRatePerBlock: bigint;
+    multiplierPerBlock: bigint;
+    jumpMultiplierPerBlock: bigint;
+    kink: bigint;
+}
+
+/**
+ * Interest accrual state of a market, as `accrueInterest` reads and writes it.
+ */
+export interface InterestSnapshot {
+    /** `getCash()` */
+    cash: bigint;
+    totalBorrows: bigint;
+    totalReserves: bigint;
+    totalSupply: bigint;
+    /** scaled by 1e18 */
+    borrowIndex: bigint;
+    accrualBlockNumber: bigint;
+    /** mantissa scaled by 1e18 */
+    reserveFactor: bigint;
+    /** exchange rate while the supply is 0, `exchangeRateStored()` of an empty market */
+    initialExchangeRate: bigint;
+}
+
+/**
+ * `accountBorrows` of an account, the borrow balance and market borrow index as of its last
+ * borrow or repay.
+ */
+export interface BorrowSnapshot {
+    principal: bigint;
+    interestIndex: bigint;
+}
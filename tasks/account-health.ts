@@ -0,0 +1,76 @@
+import { task } from 'hardhat/config';
+import { resolveAddress } from './utils/deployments';
+import { formatPercent, formatUsd, toJson } from './utils/format';
+import { scalePrice } from './utils/oracles';
+
+/**
+ * Prints why an account can or cannot borrow: its positions in every market with their
+ * USD values, its liquidity or shortfall and how far prices can move before it is liquidatable.
+ */
+task('account-health', 'Print the positions and liquidity of an account')
+    .addParam('account', 'Address of the account')
+    .addOptionalParam('comptroller', 'Comptroller address or manifest key', 'Comptroller')
+    .addFlag('json', 'Print the report as JSON')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        // The SDK is built on typechain types, which only exist once the config is loaded
+        const { ClusterClient } = await import('../sdk');
+
+        const client = await ClusterClient.load(
+            { comptroller: await resolveAddress(hre, args.comptroller) },
+            ethers.provider
+        );
+        const health = await client.getAccountHealth(ethers.getAddress(args.account));
+
+        if (args.json) {
+            console.log(toJson(health));
+            return health;
+        }
+
+        console.log(`>>>>> Account ${health.account}`);
+        console.table(
+            health.markets.map(m => ({
+                market: m.symbol,
+                underlying: m.underlyingSymbol,
+                supplied: ethers.formatUnits(m.supplied, m.underlyingDecimals),
+                borrowed: ethers.formatUnits(m.borrowed, m.underlyingDecimals),
+                // oracle prices are scaled by 1e(36 - decimals)
+                price: formatUsd(scalePrice(m.underlyingPrice, 36 - m.underlyingDecimals, 18)),
+                'supplied USD': formatUsd(m.suppliedValue),
+                'borrowed USD': formatUsd(m.borrowedValue),
+                'collateral factor': formatPercent(Number(ethers.formatEther(m.collateralFactor))),
+                collateral: m.isCollateral ? 'entered' : 'no'
+            }))
+        );
+
+        console.log(`Total supplied:   ${formatUsd(health.totalSupplied)}`);
+        console.log(`Total collateral: ${formatUsd(health.totalCollateral)}`);
+        console.log(`Total borrowed:   ${formatUsd(health.totalBorrowed)}`);
+        console.log(
+            health.shortfall > 0n
+                ? `Shortfall:        ${formatUsd(health.shortfall)} (liquidatable)`
+                : `Liquidity:        ${formatUsd(health.liquidity)}`
+        );
+
+        if (health.healthFactor === null) {
+            console.log('Health factor:    - (no borrows)');
+            return health;
+        }
+        console.log(`Health factor:    ${health.healthFactor.toFixed(4)}`);
+
+        if (health.shortfall > 0n) return health;
+
+        console.log('>>>>> Liquidatable after:');
+        if (health.collateralPriceDrop !== null) {
+            console.log(`  every collateral price ${formatPercent(-health.collateralPriceDrop)}`);
+        }
+        for (const move of health.priceMoves) {
+            const { symbol } = health.markets.find(m => m.market === move.market)!;
+            const change =
+                move.change === null ? 'cannot alone' : formatPercent(move.change, true);
+
+            console.log(`  ${symbol} price ${change}`);
+        }
+
+        return health;
+    });
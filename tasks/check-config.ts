@@ -0,0 +1,258 @@
+import { task } from 'hardhat/config';
+import { MarketRiskParams, ProtocolConfig, RiskParamsConfig } from '../config/types';
+import { loadConfigFile } from './utils/config';
+import { getDeploymentAddress, resolveAddress } from './utils/deployments';
+import { toJson } from './utils/format';
+import { toPerBlock } from './utils/interestRates';
+import {
+    formatBorrowCap,
+    formatClrSpeed,
+    formatMantissa,
+    readMarketRiskState
+} from './utils/riskParams';
+
+interface Drift {
+    /** `Comptroller`, a clToken symbol or the manifest key of an interest rate model */
+    contract: string;
+    parameter: string;
+    expected: string;
+    actual: string;
+}
+
+/** A parameter only declared in the risk parameters, left unchecked when they do not set it */
+interface Unchecked {
+    contract: string;
+    parameter: string;
+}
+
+/**
+ * Compares the declared protocol config, and optionally the desired risk parameters of
+ * `propose-risk-params`, with the live state and reports every mismatch. Contracts are
+ * located through the deployment manifest. Risk parameters that are not declared are not
+ * checked, and listed as such in the report, except the pause flags which are expected off
+ * unless declared otherwise.
+ * Read-only, the task exits non-zero on drift so it can run on a schedule.
+ */
+task('check-config', 'Report drift between the declared config and the live state')
+    .addParam('protocolConfig', 'Path to the protocol config (.ts or .json)')
+    .addOptionalParam('params', 'Path to the desired risk parameters (.ts or .json)')
+    .addFlag('json', 'Print the report as JSON')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        const { parseEther, parseUnits } = ethers;
+        const config = loadConfigFile<ProtocolConfig>(args.protocolConfig);
+        const params =
+            args.params === undefined ? undefined : loadConfigFile<RiskParamsConfig>(args.params);
+
+        const drifts: Drift[] = [];
+        const check = <T>(
+            contract: string,
+            parameter: string,
+            expected: T,
+            actual: T,
+            format: (value: T) => string = String
+        ) => {
+            if (expected === actual) return;
+            drifts.push({
+                contract,
+                parameter,
+                expected: format(expected),
+                actual: format(actual)
+            });
+        };
+        const pauseState = (paused: boolean) => (paused ? 'paused' : 'active');
+        const unchecked: Unchecked[] = [];
+
+        const comptrollerAddress = await getDeploymentAddress(hre, 'Comptroller');
+        const comptroller = await ethers.getContractAt('Comptroller', comptrollerAddress);
+
+        check(
+            'Comptroller',
+            'close factor',
+            parseEther(config.closeFactor),
+            await comptroller.closeFactorMantissa(),
+            formatMantissa
+        );
+        check(
+            'Comptroller',
+            'liquidation incentive',
+            parseEther(config.liquidationIncentive),
+            await comptroller.liquidationIncentiveMantissa(),
+            formatMantissa
+        );
+        check(
+            'Comptroller',
+            'oracle',
+            await getDeploymentAddress(hre, 'PriceOracle'),
+            await comptroller.oracle()
+        );
+        check(
+            'Comptroller',
+            'leverage address',
+            await getDeploymentAddress(hre, 'Leverage'),
+            await comptroller.leverageAddress()
+        );
+        check(
+            'Comptroller',
+            'transfer',
+            params?.transferPaused ?? false,
+            await comptroller.transferGuardianPaused(),
+            pauseState
+        );
+        check(
+            'Comptroller',
+            'seize',
+            params?.seizePaused ?? false,
+            await comptroller.seizeGuardianPaused(),
+            pauseState
+        );
+
+        // Desired risk parameters by clToken address
+        const riskParams = new Map<string, MarketRiskParams>();
+        for (const [key, market] of Object.entries(params?.markets ?? {})) {
+            riskParams.set(await resolveAddress(hre, key), market);
+        }
+
+        const checkedModels = new Set<string>();
+        for (const market of config.markets) {
+            const address = await getDeploymentAddress(hre, `ClErc20:${market.symbol}`);
+            const [isListed] = await comptroller.getMarketInfo(address);
+            if (!isListed) {
+                check(market.symbol, 'listed', 'listed', 'not listed');
+                continue;
+            }
+            const state = await readMarketRiskState(hre, comptrollerAddress, address);
+            const desired = riskParams.get(address) ?? {};
+            riskParams.delete(address);
+
+            check(
+                market.symbol,
+                'collateral factor',
+                parseEther(desired.collateralFactor ?? market.collateralFactor),
+                state.collateralFactor,
+                formatMantissa
+            );
+            check(market.symbol, 'mint', desired.mintPaused ?? false, state.mintPaused, pauseState);
+            check(
+                market.symbol,
+                'borrow',
+                desired.borrowPaused ?? false,
+                state.borrowPaused,
+                pauseState
+            );
+            if (desired.borrowCap !== undefined) {
+                check(
+                    market.symbol,
+                    'borrow cap',
+                    parseUnits(desired.borrowCap, state.underlyingDecimals),
+                    state.borrowCap,
+                    (cap: bigint) => formatBorrowCap(state, cap)
+                );
+            } else {
+                unchecked.push({ contract: market.symbol, parameter: 'borrow cap' });
+            }
+            if (desired.clrSupplySpeed !== undefined) {
+                check(
+                    market.symbol,
+                    'CLR supply speed',
+                    parseEther(desired.clrSupplySpeed),
+                    state.clrSupplySpeed,
+                    formatClrSpeed
+                );
+            } else {
+                unchecked.push({ contract: market.symbol, parameter: 'CLR supply speed' });
+            }
+            if (desired.clrBorrowSpeed !== undefined) {
+                check(
+                    market.symbol,
+                    'CLR borrow speed',
+                    parseEther(desired.clrBorrowSpeed),
+                    state.clrBorrowSpeed,
+                    formatClrSpeed
+                );
+            } else {
+                unchecked.push({ contract: market.symbol, parameter: 'CLR borrow speed' });
+            }
+            if (desired.reserveFactor !== undefined) {
+                check(
+                    market.symbol,
+                    'reserve factor',
+                    parseEther(desired.reserveFactor),
+                    state.reserveFactor,
+                    formatMantissa
+                );
+            } else {
+                unchecked.push({ contract: market.symbol, parameter: 'reserve factor' });
+            }
+
+            const model =
+                desired.interestRateModel !== undefined
+                    ? await resolveAddress(hre, desired.interestRateModel)
+                    : await getDeploymentAddress(hre, `JumpRateModel:${market.interestRateModel}`);
+            check(market.symbol, 'interest rate model', model, state.interestRateModel);
+
+            // A model set through the risk parameters is not described by the protocol config
+            const key = market.interestRateModel;
+            const irmConfig = config.interestRateModels[key];
+            if (
+                irmConfig === undefined ||
+                desired.interestRateModel !== undefined ||
+                checkedModels.has(key) ||
+                model !== state.interestRateModel
+            ) {
+                continue;
+            }
+            checkedModels.add(key);
+
+            const label = `JumpRateModel:${key}`;
+            const irm = await ethers.getContractAt('JumpRateModel', model);
+            const [blocksPerYear, baseRatePerBlock, multiplierPerBlock, jumpPerBlock, kink] =
+                await Promise.all([
+                    irm.blocksPerYear(),
+                    irm.baseRatePerBlock(),
+                    irm.multiplierPerBlock(),
+                    irm.jumpMultiplierPerBlock(),
+                    irm.kink()
+                ]);
+            const expected = toPerBlock(
+                BigInt(irmConfig.blocksPerYear),
+                parseEther(irmConfig.baseRatePerYear),
+                parseEther(irmConfig.multiplierPerYear),
+                parseEther(irmConfig.jumpMultiplierPerYear),
+                parseEther(irmConfig.kink)
+            );
+            check(label, 'blocks per year', BigInt(irmConfig.blocksPerYear), blocksPerYear);
+            check(label, 'base rate per block', expected.baseRatePerBlock, baseRatePerBlock);
+            check(label, 'multiplier per block', expected.multiplierPerBlock, multiplierPerBlock);
+            check(
+                label,
+                'jump multiplier per block',
+                expected.jumpMultiplierPerBlock,
+                jumpPerBlock
+            );
+            check(label, 'kink', expected.kink, kink, formatMantissa);
+        }
+
+        for (const address of riskParams.keys()) {
+            check(address, 'declared', 'in the protocol config', 'only in the risk parameters');
+        }
+
+        if (drifts.length > 0) process.exitCode = 1;
+        if (args.json) {
+            console.log(toJson({ drifts, unchecked }));
+            return { drifts, unchecked };
+        }
+
+        if (drifts.length === 0) {
+            console.log('>>>>> Live state matches the config');
+        } else {
+            console.table(drifts);
+            console.log(`${drifts.length} parameters drifted from the config`);
+        }
+        if (unchecked.length > 0) {
+            console.log('>>>>> Not checked, not set in the risk parameters (--params):');
+            console.table(unchecked);
+        }
+
+        return { drifts, unchecked };
+    });
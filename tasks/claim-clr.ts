@@ -0,0 +1,65 @@
+import { task } from 'hardhat/config';
+import { resolveAddress } from './utils/deployments';
+
+/**
+ * Shows the CLR an account accrued in each market, computed off chain up to the next block,
+ * and claims it with the first configured account. Anyone can claim for an account, the CLR
+ * is always transferred to the account itself.
+ */
+task('claim-clr', 'Claim the CLR accrued by an account')
+    .addParam('account', 'Address of the account to claim for')
+    .addOptionalParam('comptroller', 'Comptroller address or manifest key', 'Comptroller')
+    .addFlag('dryRun', 'Only show the pending CLR')
+    .addOptionalVariadicPositionalParam(
+        'markets',
+        'Markets to claim in, addresses or manifest keys (default: every market)'
+    )
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        const { formatEther } = ethers;
+        // The SDK is built on typechain types, which only exist once the config is loaded
+        const { ClusterClient } = await import('../sdk');
+
+        const [signer] = await ethers.getSigners();
+        const account = ethers.getAddress(args.account);
+        const client = await ClusterClient.load(
+            { comptroller: await resolveAddress(hre, args.comptroller) },
+            signer
+        );
+        const markets: string[] =
+            args.markets === undefined
+                ? [...(await client.getAllMarkets())]
+                : await Promise.all(args.markets.map((m: string) => resolveAddress(hre, m)));
+
+        const pending = await client.getPendingClr(account, markets);
+        console.table(
+            await Promise.all(
+                pending.markets.map(async m => ({
+                    market: await client.market(m.clToken).symbol(),
+                    supply: formatEther(m.supply),
+                    borrow: formatEther(m.borrow)
+                }))
+            )
+        );
+        console.log(`>>>>> Already accrued: ${formatEther(pending.accrued)} CLR`);
+        console.log(`>>>>> Pending: ${formatEther(pending.total)} CLR`);
+
+        const clrAddress = await client.comptroller.clrAddress();
+        const clr = await ethers.getContractAt('ClusterToken', clrAddress);
+        const available = await clr.balanceOf(client.addresses.comptroller);
+        if (pending.total > available) {
+            // grantClrInternal transfers nothing rather than part of it
+            console.warn(
+                `WARNING: the Comptroller only holds ${formatEther(available)} CLR, ` +
+                    'the claim would transfer nothing'
+            );
+        }
+        if (args.dryRun || pending.total === 0n) return pending;
+
+        const balance = await clr.balanceOf(account);
+        const receipt = await client.claimClr(account, markets);
+        const claimed = (await clr.balanceOf(account)) - balance;
+        console.log(`>>>>> Claimed ${formatEther(claimed)} CLR for ${account} in ${receipt.hash}`);
+
+        return pending;
+    });
@@ -0,0 +1,200 @@
+import { Interface } from 'ethers';
+import fs from 'fs';
+import { task, types } from 'hardhat/config';
+import { getBlocksPerDay } from './utils/chains';
+import { getDeployment, resolveAddress } from './utils/deployments';
+import { toSafeBatch } from './utils/safe';
+
+interface SpeedRow {
+    market: string;
+    supplySpeed: bigint;
+    borrowSpeed: bigint;
+}
+
+/**
+ * Converts a daily CLR budget split across markets into the per-block speeds of
+ * `setClrSpeeds`, and reports the runway of the Comptroller's CLR balance at the current
+ * and the planned emission, contributors included. `grantClrInternal` pays nothing once the
+ * balance cannot cover a claim, and the runway does not count the CLR accrued but not yet
+ * claimed, so it is an upper bound.
+ */
+task('clr-budget', 'Plan CLR speeds from a daily budget and report the emission runway')
+    .addOptionalParam('perDay', 'CLR emitted per day across the split markets, e.g. 1000')
+    .addOptionalParam(
+        'split',
+        'Weight of each market (address or manifest key), e.g. "ClErc20:clWstETH=60,clX=40"'
+    )
+    .addOptionalParam('supplyShare', 'Share of each market going to suppliers', '0.5')
+    .addOptionalParam('chain', 'Block time preset (default: the network name)')
+    .addOptionalParam('minRunway', 'Runway in days under which to warn', 30, types.float)
+    .addOptionalParam('comptroller', 'Comptroller address or manifest key', 'Comptroller')
+    .addOptionalParam(
+        'fromBlock',
+        'First block to scan for contributors (default: Comptroller deployment block)',
+        undefined,
+        types.int
+    )
+    .addOptionalParam('batchSize', 'Blocks fetched per eth_getLogs request', 2000, types.int)
+    .addFlag('apply', 'Send setClrSpeeds from the first configured account')
+    .addOptionalParam('out', 'Write setClrSpeeds as a Safe Transaction Builder batch to this file')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        const { parseEther, formatEther, WeiPerEther } = ethers;
+
+        const blocksPerDay = BigInt(getBlocksPerDay(args.chain ?? hre.network.name));
+        const comptrollerAddress = await resolveAddress(hre, args.comptroller);
+        const comptroller = await ethers.getContractAt('Comptroller', comptrollerAddress);
+        const clr = await ethers.getContractAt('ClusterToken', await comptroller.clrAddress());
+
+        const current: SpeedRow[] = [];
+        for (const market of await comptroller.getAllMarkets()) {
+            const [supplySpeed, borrowSpeed] = await Promise.all([
+                comptroller.clrSupplySpeeds(market),
+                comptroller.clrBorrowSpeeds(market)
+            ]);
+            current.push({ market, supplySpeed, borrowSpeed });
+        }
+
+        // Contributors are only known from their speed updates
+        const fromBlock =
+            args.fromBlock ?? (await getDeployment(hre, args.comptroller))?.blockNumber ?? 0;
+        const head = await ethers.provider.getBlockNumber();
+        const updated = new Set<string>();
+        for (let start = fromBlock; start <= head; start += args.batchSize) {
+            const updates = await comptroller.queryFilter(
+                comptroller.filters.ContributorClrSpeedUpdated(),
+                start,
+                Math.min(start + args.batchSize - 1, head)
+            );
+            for (const event of updates) updated.add(event.args.contributor);
+        }
+        const contributors = new Map<string, bigint>();
+        for (const contributor of updated) {
+            const speed = await comptroller.clrContributorSpeeds(contributor);
+            if (speed > 0n) contributors.set(contributor, speed);
+        }
+        const contributorSpeed = [...contributors.values()].reduce((a, b) => a + b, 0n);
+
+        let planned: SpeedRow[] | undefined;
+        if (args.perDay !== undefined) {
+            if (args.split === undefined) throw new Error('Pass --split with --per-day');
+            const supplyShare = parseEther(args.supplyShare);
+            if (supplyShare > WeiPerEther) throw new Error('The supply share must be in [0, 1]');
+
+            const weights: [string, bigint][] = [];
+            for (const entry of (args.split as string).split(',')) {
+                const [key, weight] = entry.split('=');
+                if (weight === undefined) throw new Error(`Missing the weight of "${key}"`);
+                const market = await resolveAddress(hre, key.trim());
+                const [isListed] = await comptroller.getMarketInfo(market);
+                if (!isListed) throw new Error(`Market ${key} is not listed`);
+                weights.push([market, parseEther(weight.trim())]);
+            }
+            const totalWeight = weights.reduce((sum, [, w]) => sum + w, 0n);
+            if (totalWeight === 0n) throw new Error('The weights must not all be 0');
+
+            const perDay = parseEther(args.perDay);
+            planned = weights.map(([market, weight]) => {
+                const marketPerDay = (perDay * weight) / totalWeight;
+                const supplyPerDay = (marketPerDay * supplyShare) / WeiPerEther;
+                return {
+                    market,
+                    supplySpeed: supplyPerDay / blocksPerDay,
+                    borrowSpeed: (marketPerDay - supplyPerDay) / blocksPerDay
+                };
+            });
+        }
+
+        const symbols = new Map<string, string>();
+        for (const { market } of current) {
+            symbols.set(market, await (await ethers.getContractAt('ClErc20', market)).symbol());
+        }
+        const perDay = (speed: bigint) => formatEther(speed * blocksPerDay);
+        console.table(
+            current.map(row => {
+                const plan = planned?.find(p => p.market === row.market);
+                return {
+                    market: symbols.get(row.market),
+                    'supply/day': perDay(row.supplySpeed),
+                    'borrow/day': perDay(row.borrowSpeed),
+                    ...(planned === undefined
+                        ? {}
+                        : {
+                              'planned supply/day': plan ? perDay(plan.supplySpeed) : '-',
+                              'planned borrow/day': plan ? perDay(plan.borrowSpeed) : '-'
+                          })
+                };
+            })
+        );
+        for (const [contributor, speed] of contributors) {
+            console.log(`Contributor ${contributor}: ${perDay(speed)} CLR/day`);
+        }
+
+        const balance = await clr.balanceOf(comptrollerAddress);
+        console.log(`>>>>> Comptroller balance: ${formatEther(balance)} CLR`);
+
+        const report = (label: string, rows: SpeedRow[]) => {
+            const speed = rows.reduce(
+                (sum, r) => sum + r.supplySpeed + r.borrowSpeed,
+                contributorSpeed
+            );
+            const runway =
+                speed === 0n ? null : Number(balance) / Number(speed * blocksPerDay);
+            console.log(
+                `>>>>> ${label} emission: ${formatEther(speed)} CLR/block, ` +
+                    `${perDay(speed)} CLR/day, runway ` +
+                    (runway === null ? 'unlimited' : `${runway.toFixed(1)} days`)
+            );
+            if (runway !== null && runway < args.minRunway) {
+                console.warn(
+                    `WARNING: ${label.toLowerCase()} runway below ${args.minRunway} days`
+                );
+            }
+            return { speed, runway };
+        };
+
+        const result = {
+            blocksPerDay,
+            balance,
+            contributors: Object.fromEntries(contributors),
+            current: { markets: current, ...report('Current', current) },
+            planned:
+                planned === undefined
+                    ? undefined
+                    : {
+                          markets: planned,
+                          // markets outside the split keep their speeds
+                          ...report('Planned', [
+                              ...current.filter(c => !planned!.some(p => p.market === c.market)),
+                              ...planned
+                          ])
+                      }
+        };
+        if (planned === undefined) return result;
+
+        const callArgs = [
+            planned.map(p => p.market),
+            planned.map(p => p.supplySpeed),
+            planned.map(p => p.borrowSpeed)
+        ] as const;
+        if (args.out !== undefined) {
+            const { chainId } = await ethers.provider.getNetwork();
+            // A plain Interface, the typechain overloads do not resolve setClrSpeeds
+            const comptrollerInterface: Interface = comptroller.interface;
+            const data = comptrollerInterface.encodeFunctionData('setClrSpeeds', callArgs);
+            const batch = toSafeBatch(chainId, [{ to: comptrollerAddress, data }], {
+                name: 'CLR budget',
+                description: `${args.perDay} CLR per day split ${args.split}`
+            });
+            fs.writeFileSync(args.out, JSON.stringify(batch, null, 4) + '\n');
+            console.log(`>>>>> Written to ${args.out}`);
+        }
+        if (args.apply) {
+            const [admin] = await ethers.getSigners();
+            const tx = await comptroller.connect(admin).setClrSpeeds(...callArgs);
+            await tx.wait();
+            console.log(`>>>>> CLR speeds set in ${tx.hash}`);
+        }
+
+        return result;
+    });
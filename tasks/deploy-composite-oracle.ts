@@ -0,0 +1,84 @@
+import { task } from 'hardhat/config';
+import { deployContract } from './utils/deployments';
+import { formatPercent, formatUsd } from './utils/format';
+import { getCompositePrice, resolveFeed } from './utils/oracles';
+import { verifyDeployment } from './utils/verify';
+
+/**
+ * Deploys a CompositeChainlinkOracle from named feeds and records it as
+ * `CompositeChainlinkOracle:<name>`. The expected price is computed off chain from the
+ * components, so a wrong ordering of the feeds, which prices off by orders of magnitude,
+ * stops the task instead of reaching the PriceOracle.
+ */
+task('deploy-composite-oracle', 'Deploy a CompositeChainlinkOracle from named feeds')
+    .addParam('name', 'Name of the oracle, recorded as CompositeChainlinkOracle:<name>')
+    .addParam('base', 'Base feed name or address, e.g. "ETH / USD"')
+    .addParam('multiplier', 'Multiplier feed name or address, e.g. "RETH / ETH"')
+    .addOptionalParam('secondMultiplier', 'Second multiplier feed name or address')
+    .addParam('minPrice', 'Lowest sane USD price, e.g. 1000')
+    .addParam('maxPrice', 'Highest sane USD price, e.g. 10000')
+    .addOptionalParam('tolerance', 'Accepted on-chain to off-chain price deviation', '0.001')
+    .addOptionalParam('feeds', 'Network of the feed names, defaults to the network name')
+    .addFlag('verify', 'Verify the contract on the block explorer')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        const { parseEther, ZeroAddress } = ethers;
+        const key = `CompositeChainlinkOracle:${args.name}`;
+
+        const base = resolveFeed(hre, args.base, args.feeds);
+        const multiplier = resolveFeed(hre, args.multiplier, args.feeds);
+        const secondMultiplier =
+            args.secondMultiplier === undefined
+                ? ZeroAddress
+                : resolveFeed(hre, args.secondMultiplier, args.feeds);
+        const constructorArgs = [base, multiplier, secondMultiplier];
+
+        const minPrice = parseEther(args.minPrice);
+        const maxPrice = parseEther(args.maxPrice);
+        const tolerance = Number(args.tolerance);
+
+        const checkBand = (price: bigint, source: string) => {
+            if (price < minPrice || price > maxPrice) {
+                throw new Error(
+                    `${source} price ${formatUsd(price)} is outside ` +
+                        `[${formatUsd(minPrice)}, ${formatUsd(maxPrice)}], check the feed order`
+                );
+            }
+        };
+
+        const expected = await getCompositePrice(hre, { base, multiplier, secondMultiplier });
+        console.log(`>>>>> Expected price: ${formatUsd(expected)}`);
+        checkBand(expected, 'Expected');
+
+        // A new oracle is only recorded once its price is checked, so a wrong one never lands in
+        // the manifest
+        const address = await deployContract(
+            hre,
+            key,
+            'CompositeChainlinkOracle',
+            constructorArgs,
+            async address => {
+                const oracle = await ethers.getContractAt('CompositeChainlinkOracle', address);
+                const [, answer] = await oracle.latestRoundData();
+                const deviation = Number(answer - expected) / Number(expected);
+                console.log(
+                    `>>>>> On-chain price: ${formatUsd(answer)} (${formatPercent(deviation, true)})`
+                );
+
+                checkBand(answer, 'On-chain');
+                if (Math.abs(deviation) > tolerance) {
+                    throw new Error(
+                        `On-chain price deviates ${formatPercent(deviation, true)} from the ` +
+                            `expected ${formatUsd(expected)}, above the ` +
+                            `${formatPercent(tolerance)} tolerance`
+                    );
+                }
+            }
+        );
+
+        if (args.verify) {
+            await verifyDeployment(hre, key);
+        }
+
+        return address;
+    });
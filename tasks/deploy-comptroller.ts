@@ -1,20 +1,16 @@
 import { task } from 'hardhat/config';
+import { deployProxy } from './utils/deployments';
+import { verifyDeployment } from './utils/verify';
 
 task('deploy-comptroller', 'Deploy Comptroller')
-    .setAction(async ({}, { ethers, upgrades, run }) => {
+    .addFlag('verify', 'Verify the contract on the block explorer')
+    .setAction(async ({ verify }, hre) => {
         // Deploy proxy contract
-        const Comptroller = await ethers.getContractFactory("Comptroller");
-        const proxy = await upgrades.deployProxy(Comptroller, []);
-        await proxy.waitForDeployment();
+        const proxy = await deployProxy(hre, 'Comptroller', 'Comptroller');
 
-        console.log("Proxy deployed to:", proxy.target);
+        if (verify) {
+            await verifyDeployment(hre, 'Comptroller');
+        }
 
-        // verify
-        await run('verify:verify', {
-            address: await proxy.getAddress()
-        });
-
-        console.log('>>>>> Comptroller Contract verified.');
-
-        return proxy.target;
+        return proxy;
     });
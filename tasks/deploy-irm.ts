@@ -0,0 +1,93 @@
+import { task, types } from 'hardhat/config';
+import { getBlocksPerYear } from './utils/chains';
+import { deployContract } from './utils/deployments';
+import { getBorrowRate, getSupplyRate, toApy, toPerBlock } from './utils/interestRates';
+import { verifyDeployment } from './utils/verify';
+
+const UTILIZATIONS = ['0', '0.25', '0.5', '0.75', '1'];
+
+/**
+ * Deploys a JumpRateModel from annual rates and records it as `JumpRateModel:<name>`.
+ * The effective borrow and supply APYs are printed before deploying, since a wrong
+ * blocks per year silently misprices every market using the model.
+ */
+task('deploy-irm', 'Deploy a JumpRateModel interest rate model')
+    .addParam('baseRate', 'Annual base rate, e.g. 0.02 for 2%')
+    .addParam('multiplier', 'Annual rate of increase up to the kink, e.g. 0.1')
+    .addParam('jumpMultiplier', 'Annual rate of increase after the kink, e.g. 3')
+    .addParam('kink', 'Utilization at which the jump multiplier applies, e.g. 0.8')
+    .addOptionalParam('chain', 'Blocks per year preset, defaults to the network name')
+    .addOptionalParam(
+        'blocksPerYear',
+        'Blocks per year, overrides the chain preset',
+        undefined,
+        types.int
+    )
+    .addOptionalParam('reserveFactor', 'Reserve factor used for the supply APY preview', '0')
+    .addOptionalParam('name', 'Name of the model, recorded as JumpRateModel:<name>', 'default')
+    .addOptionalParam('owner', 'Owner of the model, defaults to the deployer')
+    .addFlag('dryRun', 'Only print the rate preview')
+    .addFlag('verify', 'Verify the contract on the block explorer')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        const { parseEther, formatUnits } = ethers;
+        const percent = (mantissa: bigint) => `${formatUnits(mantissa, 16)}%`;
+
+        const blocksPerYear: number =
+            args.blocksPerYear ?? getBlocksPerYear(args.chain ?? hre.network.name);
+        const baseRatePerYear = parseEther(args.baseRate);
+        const multiplierPerYear = parseEther(args.multiplier);
+        const jumpMultiplierPerYear = parseEther(args.jumpMultiplier);
+        const kink = parseEther(args.kink);
+        const reserveFactor = parseEther(args.reserveFactor);
+
+        if (kink === 0n || kink > ethers.WeiPerEther) {
+            throw new Error('Kink must be in (0, 1]');
+        }
+
+        const model = toPerBlock(
+            BigInt(blocksPerYear),
+            baseRatePerYear,
+            multiplierPerYear,
+            jumpMultiplierPerYear,
+            kink
+        );
+
+        const utilizations = [...new Set([...UTILIZATIONS.map(u => parseEther(u)), kink])].sort(
+            (a, b) => (a < b ? -1 : a > b ? 1 : 0)
+        );
+
+        console.log(`>>>>> Blocks per year: ${blocksPerYear}`);
+        console.log(`>>>>> Reserve factor: ${percent(reserveFactor)}`);
+        console.table(
+            utilizations.map(util => {
+                const borrowApy = toApy(getBorrowRate(model, util), blocksPerYear);
+                const supplyApy = toApy(getSupplyRate(model, util, reserveFactor), blocksPerYear);
+
+                return {
+                    utilization: `${percent(util)}${util === kink ? ' (kink)' : ''}`,
+                    'borrow APY': `${borrowApy.toFixed(2)}%`,
+                    'supply APY': `${supplyApy.toFixed(2)}%`
+                };
+            })
+        );
+
+        if (args.dryRun) return;
+
+        const [deployer] = await ethers.getSigners();
+
+        const irm = await deployContract(hre, `JumpRateModel:${args.name}`, 'JumpRateModel', [
+            blocksPerYear,
+            baseRatePerYear,
+            multiplierPerYear,
+            jumpMultiplierPerYear,
+            kink,
+            args.owner ?? deployer.address
+        ]);
+
+        if (args.verify) {
+            await verifyDeployment(hre, `JumpRateModel:${args.name}`);
+        }
+
+        return irm;
+    });
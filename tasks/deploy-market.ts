@@ -0,0 +1,114 @@
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { deployContract, resolveAddress } from './utils/deployments';
+import { getInitialExchangeRate } from './utils/markets';
+import { verifyDeployment } from './utils/verify';
+
+async function isComptroller(hre: HardhatRuntimeEnvironment, address: string) {
+    const comptroller = await hre.ethers.getContractAt('Comptroller', address);
+    return comptroller.isComptroller().catch(() => false);
+}
+
+async function isInterestRateModel(hre: HardhatRuntimeEnvironment, address: string) {
+    const irm = await hre.ethers.getContractAt('IInterestRateModel', address);
+    return irm.isInterestRateModel().catch(() => false);
+}
+
+/**
+ * Deploys a single ClErc20 market and records it as `ClErc20:<symbol>`.
+ * With `--list` the market is also listed on the comptroller, its feed is set on
+ * the price oracle and it is added to the Leverage contract.
+ */
+task('deploy-market', 'Deploy a ClErc20 market')
+    .addParam('underlying', 'Address of the underlying asset')
+    .addParam('irm', 'Interest rate model address or manifest key, e.g. JumpRateModel:default')
+    .addParam('name', 'ERC-20 name of the clToken, e.g. "Cluster WstETH"')
+    .addParam('symbol', 'ERC-20 symbol of the clToken, e.g. clWstETH')
+    .addOptionalParam('comptroller', 'Comptroller address or manifest key', 'Comptroller')
+    .addOptionalParam('admin', 'Admin of the market, defaults to the deployer')
+    .addOptionalParam(
+        'exchangeRate',
+        'Initial exchange rate mantissa in units of 1e18, not adjusted for decimals (as in the ' +
+            'protocol config); derived from the token decimals when omitted'
+    )
+    .addOptionalParam('decimals', 'Decimals of the clToken', 8, types.int)
+    .addFlag('list', 'List the market, set its price feed and add it to Leverage')
+    .addOptionalParam('feed', 'Chainlink feed of the underlying, only used with --list')
+    .addOptionalParam('leverage', 'Leverage address or manifest key', 'Leverage')
+    .addFlag('verify', 'Verify the contract on the block explorer')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        const [deployer] = await ethers.getSigners();
+
+        const comptrollerAddress = await resolveAddress(hre, args.comptroller);
+        if (!(await isComptroller(hre, comptrollerAddress))) {
+            throw new Error(`${comptrollerAddress} is not a Comptroller`);
+        }
+
+        const irm = await resolveAddress(hre, args.irm);
+        if (!(await isInterestRateModel(hre, irm))) {
+            throw new Error(`${irm} is not an interest rate model`);
+        }
+
+        const underlying = await ethers.getContractAt('IERC20Metadata', args.underlying);
+        const underlyingSymbol = await underlying.symbol();
+        const exchangeRate =
+            args.exchangeRate !== undefined
+                ? ethers.parseEther(args.exchangeRate)
+                : getInitialExchangeRate(Number(await underlying.decimals()), args.decimals);
+
+        const comptroller = await ethers.getContractAt('Comptroller', comptrollerAddress);
+        const priceOracle = await ethers.getContractAt('PriceOracle', await comptroller.oracle());
+
+        // A listed market without a price blocks every account entering it, check before deploying
+        if (
+            args.list &&
+            args.feed === undefined &&
+            (await priceOracle.getFeed(underlyingSymbol)) === ethers.ZeroAddress &&
+            (await priceOracle.assetPrices(args.underlying)) === 0n
+        ) {
+            throw new Error(`No price for ${underlyingSymbol}, pass --feed to list the market`);
+        }
+
+        const clToken = await deployContract(hre, `ClErc20:${args.symbol}`, 'ClErc20', [
+            await underlying.getAddress(),
+            comptrollerAddress,
+            irm,
+            exchangeRate,
+            args.name,
+            args.symbol,
+            args.decimals,
+            args.admin ?? deployer.address
+        ]);
+
+        if (args.verify) {
+            await verifyDeployment(hre, `ClErc20:${args.symbol}`);
+        }
+
+        if (!args.list) return clToken;
+
+        const [isListed] = await comptroller.getMarketInfo(clToken);
+        if (!isListed) {
+            await (await comptroller.supportMarket(clToken)).wait();
+            console.log(`>>>>> ${args.symbol} listed.`);
+        }
+
+        if (args.feed !== undefined) {
+            const feed = ethers.getAddress(args.feed);
+            if ((await priceOracle.getFeed(underlyingSymbol)) !== feed) {
+                await (await priceOracle.setFeed(underlyingSymbol, feed)).wait();
+                console.log(`>>>>> Feed for ${underlyingSymbol} set to ${feed}.`);
+            }
+        }
+
+        const leverage = await ethers.getContractAt(
+            'Leverage',
+            await resolveAddress(hre, args.leverage)
+        );
+        if (!(await leverage.allowedTokens(args.underlying))) {
+            await (await leverage.addMarket(clToken)).wait();
+            console.log(`>>>>> ${args.symbol} added to Leverage.`);
+        }
+
+        return clToken;
+    });
@@ -1,20 +1,15 @@
 import { task } from 'hardhat/config';
+import { deployContract } from './utils/deployments';
+import { verifyDeployment } from './utils/verify';
 
 task('deploy-price-oracle', 'Deploy PriceOracle')
-    .setAction(async ({}, { ethers, run }) => {
-        // Deploy proxy contract
-        const PriceOracle = await ethers.getContractFactory("PriceOracle");
-        const priceOracle = await PriceOracle.deploy();
-        await priceOracle.waitForDeployment();
+    .addFlag('verify', 'Verify the contract on the block explorer')
+    .setAction(async ({ verify }, hre) => {
+        const priceOracle = await deployContract(hre, 'PriceOracle', 'PriceOracle');
 
-        console.log("PriceOracle deployed to:", priceOracle.target);
+        if (verify) {
+            await verifyDeployment(hre, 'PriceOracle');
+        }
 
-        // verify
-        await run('verify:verify', {
-            address: await priceOracle.getAddress()
-        });
-
-        console.log('>>>>> PriceOracle Contract verified.');
-
-        return priceOracle.target;
+        return priceOracle;
     });
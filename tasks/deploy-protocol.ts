@@ -0,0 +1,202 @@
+import { task } from 'hardhat/config';
+import { ProtocolConfig } from '../config/types';
+import { loadConfigFile } from './utils/config';
+import { deployContract, deployProxy, readManifest } from './utils/deployments';
+import { getInitialExchangeRate } from './utils/markets';
+import { resolveFeed } from './utils/oracles';
+import { verifyDeployments } from './utils/verify';
+
+/**
+ * Deploys every contract of the protocol and wires them together.
+ * Deployments are recorded in the network's manifest and every wiring step is skipped
+ * when the on-chain state already matches, so an interrupted run can simply be restarted.
+ */
+task('deploy-protocol', 'Deploy and wire the whole protocol from a config file')
+    .addParam('protocolConfig', 'Path to the protocol config (.ts or .json)')
+    .addFlag('verify', 'Verify the contracts on the block explorer')
+    .setAction(async ({ protocolConfig, verify }, hre) => {
+        const { ethers } = hre;
+        const config = loadConfigFile<ProtocolConfig>(protocolConfig);
+        const { parseEther, ZeroAddress } = ethers;
+
+        const [deployer] = await ethers.getSigners();
+        const admin = config.admin ?? deployer.address;
+
+        /*** Deployment ***/
+
+        const comptroller = await ethers.getContractAt(
+            'Comptroller',
+            await deployProxy(hre, 'Comptroller', 'Comptroller')
+        );
+
+        const interestRateModels: Record<string, string> = {};
+        for (const [key, irm] of Object.entries(config.interestRateModels)) {
+            interestRateModels[key] = await deployContract(
+                hre,
+                `JumpRateModel:${key}`,
+                'JumpRateModel',
+                [
+                    irm.blocksPerYear,
+                    parseEther(irm.baseRatePerYear),
+                    parseEther(irm.multiplierPerYear),
+                    parseEther(irm.jumpMultiplierPerYear),
+                    parseEther(irm.kink),
+                    admin
+                ]
+            );
+        }
+
+        const priceOracle = await ethers.getContractAt(
+            'PriceOracle',
+            await deployContract(hre, 'PriceOracle', 'PriceOracle')
+        );
+
+        const compositeOracles: Record<string, string> = {};
+        for (const [key, oracle] of Object.entries(config.compositeOracles ?? {})) {
+            compositeOracles[key] = await deployContract(
+                hre,
+                `CompositeChainlinkOracle:${key}`,
+                'CompositeChainlinkOracle',
+                [
+                    resolveFeed(hre, oracle.base),
+                    resolveFeed(hre, oracle.multiplier),
+                    oracle.secondMultiplier === undefined
+                        ? ZeroAddress
+                        : resolveFeed(hre, oracle.secondMultiplier)
+                ]
+            );
+        }
+
+        const markets: Record<string, string> = {};
+        for (const market of config.markets) {
+            const irm = interestRateModels[market.interestRateModel];
+            if (irm === undefined) {
+                throw new Error(
+                    `Unknown interest rate model "${market.interestRateModel}" for ${market.symbol}`
+                );
+            }
+
+            const decimals = market.decimals ?? 8;
+            const underlying = await ethers.getContractAt('IERC20Metadata', market.underlying);
+            const exchangeRate =
+                market.initialExchangeRate !== undefined
+                    ? parseEther(market.initialExchangeRate)
+                    : getInitialExchangeRate(Number(await underlying.decimals()), decimals);
+
+            markets[market.symbol] = await deployContract(
+                hre,
+                `ClErc20:${market.symbol}`,
+                'ClErc20',
+                [
+                    market.underlying,
+                    await comptroller.getAddress(),
+                    irm,
+                    exchangeRate,
+                    market.name,
+                    market.symbol,
+                    decimals,
+                    admin
+                ]
+            );
+        }
+
+        const leverage = await ethers.getContractAt(
+            'Leverage',
+            await deployProxy(hre, 'Leverage', 'Leverage', [await comptroller.getAddress()])
+        );
+
+        const clusterToken = await ethers.getContractAt(
+            'ClusterToken',
+            await deployContract(hre, 'ClusterToken', 'ClusterToken', [deployer.address])
+        );
+
+        /*** Wiring ***/
+
+        if ((await comptroller.oracle()) !== priceOracle.target) {
+            await (await comptroller.setPriceOracle(priceOracle.target)).wait();
+            console.log('>>>>> Price oracle set.');
+        }
+
+        for (const market of config.markets) {
+            const underlying = await ethers.getContractAt('IERC20Metadata', market.underlying);
+            const symbol = await underlying.symbol();
+            const feed = ethers.getAddress(
+                compositeOracles[market.priceFeed] ?? market.priceFeed
+            );
+
+            if ((await priceOracle.getFeed(symbol)) !== feed) {
+                await (await priceOracle.setFeed(symbol, feed)).wait();
+                console.log(`>>>>> Feed for ${symbol} set to ${feed}.`);
+            }
+        }
+
+        for (const market of config.markets) {
+            const clToken = markets[market.symbol];
+            const collateralFactor = parseEther(market.collateralFactor);
+            const [isListed, currentCollateralFactor] = await comptroller.getMarketInfo(clToken);
+
+            if (!isListed) {
+                await (await comptroller.supportMarket(clToken)).wait();
+                console.log(`>>>>> ${market.symbol} listed.`);
+            }
+            if (currentCollateralFactor !== collateralFactor) {
+                await (await comptroller.setCollateralFactor(clToken, collateralFactor)).wait();
+                console.log(`>>>>> ${market.symbol} collateral factor set.`);
+            }
+        }
+
+        const closeFactor = parseEther(config.closeFactor);
+        if ((await comptroller.closeFactorMantissa()) !== closeFactor) {
+            await (await comptroller.setCloseFactor(closeFactor)).wait();
+            console.log('>>>>> Close factor set.');
+        }
+
+        const liquidationIncentive = parseEther(config.liquidationIncentive);
+        if ((await comptroller.liquidationIncentiveMantissa()) !== liquidationIncentive) {
+            await (await comptroller.setLiquidationIncentive(liquidationIncentive)).wait();
+            console.log('>>>>> Liquidation incentive set.');
+        }
+
+        for (const market of config.markets.filter(m => m.leverage)) {
+            if (!(await leverage.allowedTokens(market.underlying))) {
+                await (await leverage.addMarket(markets[market.symbol])).wait();
+                console.log(`>>>>> ${market.symbol} added to Leverage.`);
+            }
+        }
+
+        if ((await comptroller.clrAddress()) !== clusterToken.target) {
+            await (await comptroller.setClrAddress(clusterToken.target)).wait();
+            console.log('>>>>> CLR address set.');
+        }
+
+        if ((await comptroller.leverageAddress()) !== leverage.target) {
+            await (await comptroller.setLeverageAddress(leverage.target)).wait();
+            console.log('>>>>> Leverage address set.');
+        }
+
+        const minter = ethers.getAddress(config.clrMinter ?? admin);
+        if ((await clusterToken.minter()) !== minter) {
+            await (await clusterToken.setMinter(minter)).wait();
+            console.log('>>>>> CLR minter set.');
+        }
+
+        if (verify) {
+            const failed = await verifyDeployments(
+                hre,
+                Object.keys((await readManifest(hre)).contracts)
+            );
+            if (failed.length > 0) {
+                console.log('>>>>> Some contracts are not verified, retry with verify-deployment.');
+            }
+        }
+
+        return {
+            comptroller: comptroller.target,
+            priceOracle: priceOracle.target,
+            leverage: leverage.target,
+            clusterToken: clusterToken.target,
+            interestRateModels,
+            compositeOracles,
+            markets
+        };
+    });
@@ -0,0 +1,59 @@
+import { task, types } from 'hardhat/config';
+import { getDeployment, resolveAddress } from './utils/deployments';
+
+/**
+ * Follows the chain with the event indexer, storing the protocol activity in a SQLite
+ * database that can be queried while the task runs.
+ */
+task('index-events', 'Index the protocol events into a SQLite database')
+    .addOptionalParam('comptroller', 'Comptroller address or manifest key', 'Comptroller')
+    .addOptionalParam('db', 'Database file (default: index-<network>.db)')
+    .addOptionalParam(
+        'fromBlock',
+        'First block to index (default: Comptroller deployment block)',
+        undefined,
+        types.int
+    )
+    .addOptionalParam('confirmations', 'Blocks behind the head left unindexed', 0, types.int)
+    .addOptionalParam('batchSize', 'Blocks fetched per eth_getLogs request', 2000, types.int)
+    .addOptionalParam('interval', 'Seconds between two syncs', 15, types.int)
+    .addFlag('once', 'Sync once and exit')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        // The SDK is built on typechain types, which only exist once the config is loaded
+        const { ClusterClient, EventIndexer } = await import('../sdk');
+
+        const file = args.db ?? `index-${hre.network.name}.db`;
+        const fromBlock =
+            args.fromBlock ?? (await getDeployment(hre, args.comptroller))?.blockNumber ?? 0;
+
+        const client = await ClusterClient.load(
+            { comptroller: await resolveAddress(hre, args.comptroller) },
+            ethers.provider
+        );
+        const indexer = new EventIndexer(client, file, {
+            fromBlock,
+            confirmations: args.confirmations,
+            batchSize: args.batchSize
+        });
+        console.log(`>>>>> Indexing into ${file} from block ${indexer.lastBlock ?? fromBlock}`);
+
+        try {
+            for (;;) {
+                const result = await indexer.sync();
+                if (result.rolledBackTo !== undefined) {
+                    console.log(`Reorg, rolled back to block ${result.rolledBackTo}`);
+                }
+                if (result.toBlock >= result.fromBlock) {
+                    console.log(
+                        `Blocks ${result.fromBlock}-${result.toBlock}: ${result.events} events`
+                    );
+                }
+
+                if (args.once) return;
+                await new Promise(resolve => setTimeout(resolve, args.interval * 1000));
+            }
+        } finally {
+            indexer.close();
+        }
+    });
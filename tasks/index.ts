@@ -1,2 +1,20 @@
+export * from './account-health';
+export * from './check-config';
+export * from './claim-clr';
+export * from './clr-budget';
 export * from './deploy-comptroller';
-export * from './deploy-price-oracle';
\ No newline at end of file
+export * from './deploy-composite-oracle';
+export * from './deploy-irm';
+export * from './deploy-market';
+export * from './deploy-price-oracle';
+export * from './deploy-protocol';
+export * from './index-events';
+export * from './irm-curve';
+export * from './leverage-open';
+export * from './liquidation-keeper';
+export * from './oracle-audit';
+export * from './pause';
+export * from './propose-risk-params';
+export * from './upgrade-comptroller';
+export * from './upgrade-leverage';
+export * from './verify-deployment';
\ No newline at end of file
@@ -0,0 +1,285 @@
+import fs from 'fs';
+import { task, types } from 'hardhat/config';
+import { getBlocksPerYear } from './utils/chains';
+import { renderChart } from './utils/chart';
+import { resolveAddress } from './utils/deployments';
+import { formatPercent, toJson } from './utils/format';
+import {
+    JumpRateModelParams,
+    getBorrowRate,
+    getSupplyRate,
+    toApy,
+    toPerBlock
+} from './utils/interestRates';
+
+interface CurvePoint {
+    utilization: number;
+    borrowApy: number;
+    supplyApy: number;
+}
+
+interface Curve {
+    blocksPerYear: number;
+    params: JumpRateModelParams;
+    points: CurvePoint[];
+}
+
+interface MarketUtilization {
+    market: string;
+    symbol: string;
+    utilization: number;
+    borrowApy: number;
+    supplyApy: number;
+}
+
+const FORMATS = ['chart', 'csv', 'json'];
+
+/**
+ * Sweeps the borrow and supply APY of a JumpRateModel over utilization, for the live
+ * parameters of a deployed model, proposed ones, or both overlaid. Proposed parameters
+ * not given keep their live value, so a single one can be tuned at a time.
+ * The live curve is read from the model's own `getBorrowRate`/`getSupplyRate`.
+ */
+task('irm-curve', 'Plot the borrow and supply APY curves of a JumpRateModel')
+    .addOptionalParam('irm', 'Live JumpRateModel address or manifest key')
+    .addOptionalParam('baseRate', 'Proposed annual base rate, e.g. 0.02 for 2%')
+    .addOptionalParam('multiplier', 'Proposed annual rate of increase up to the kink')
+    .addOptionalParam('jumpMultiplier', 'Proposed annual rate of increase after the kink')
+    .addOptionalParam('kink', 'Proposed kink utilization, e.g. 0.8')
+    .addOptionalParam('chain', 'Proposed blocks per year preset')
+    .addOptionalParam('blocksPerYear', 'Proposed blocks per year', undefined, types.int)
+    .addOptionalParam(
+        'reserveFactor',
+        'Reserve factor, e.g. 0.1 (default: the first market using the model)'
+    )
+    .addOptionalParam('comptroller', 'Comptroller address or manifest key', 'Comptroller')
+    .addOptionalParam('steps', 'Number of utilization steps', 20, types.int)
+    .addOptionalParam('format', `Output format: ${FORMATS.join(', ')}`, 'chart')
+    .addOptionalParam('out', 'File to write the output to instead of printing it')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        const { parseEther, formatEther } = ethers;
+        const WAD = ethers.WeiPerEther;
+
+        if (!FORMATS.includes(args.format)) {
+            throw new Error(`Unknown format ${args.format}, expected one of ${FORMATS}`);
+        }
+        if (args.steps < 1) throw new Error('At least one step is needed');
+
+        const proposing = [
+            args.baseRate,
+            args.multiplier,
+            args.jumpMultiplier,
+            args.kink,
+            args.chain,
+            args.blocksPerYear
+        ].some(p => p !== undefined);
+        if (args.irm === undefined && !proposing) {
+            throw new Error('Pass --irm, proposed parameters, or both');
+        }
+
+        const irm =
+            args.irm === undefined
+                ? undefined
+                : await ethers.getContractAt('JumpRateModel', await resolveAddress(hre, args.irm));
+
+        // Markets using the live model, for their reserve factor and live utilization
+        const markets = [];
+        // A model can be explored on a network the protocol is not deployed to
+        const comptrollerAddress = await resolveAddress(hre, args.comptroller).catch(
+            () => undefined
+        );
+        if (irm !== undefined && comptrollerAddress !== undefined) {
+            const comptroller = await ethers.getContractAt('Comptroller', comptrollerAddress);
+
+            for (const address of await comptroller.getAllMarkets()) {
+                const market = await ethers.getContractAt('ClErc20', address);
+                if ((await market.interestRateModel()) === (await irm.getAddress())) {
+                    markets.push(market);
+                }
+            }
+        }
+
+        const reserveFactor =
+            args.reserveFactor !== undefined
+                ? parseEther(args.reserveFactor)
+                : markets.length > 0
+                  ? await markets[0].reserveFactorMantissa()
+                  : 0n;
+
+        let live: Curve | undefined;
+        let liveAnnual: bigint[] = [];
+        if (irm !== undefined) {
+            const [blocksPerYear, base, multiplier, jump, kink] = await Promise.all([
+                irm.blocksPerYear(),
+                irm.baseRatePerBlock(),
+                irm.multiplierPerBlock(),
+                irm.jumpMultiplierPerBlock(),
+                irm.kink()
+            ]);
+            const params = {
+                baseRatePerBlock: base,
+                multiplierPerBlock: multiplier,
+                jumpMultiplierPerBlock: jump,
+                kink
+            };
+            // Inverse of toPerBlock, up to its truncation
+            liveAnnual = [
+                base * blocksPerYear,
+                (multiplier * blocksPerYear * kink) / WAD,
+                jump * blocksPerYear,
+                kink
+            ];
+
+            live = { blocksPerYear: Number(blocksPerYear), params, points: [] };
+            for (const util of sweep(args.steps, kink)) {
+                // Any cash and borrows with this ratio give `util`
+                const [borrowRate, supplyRate] = await Promise.all([
+                    irm.getBorrowRate(WAD - util, util, 0),
+                    irm.getSupplyRate(WAD - util, util, 0, reserveFactor)
+                ]);
+                live.points.push(point(util, borrowRate, supplyRate, live.blocksPerYear));
+            }
+        }
+
+        let proposed: Curve | undefined;
+        if (proposing) {
+            const annual = [args.baseRate, args.multiplier, args.jumpMultiplier, args.kink].map(
+                (value, i) => {
+                    if (value !== undefined) return parseEther(value);
+                    if (live === undefined) {
+                        throw new Error('Every parameter must be proposed without --irm');
+                    }
+                    return liveAnnual[i];
+                }
+            );
+            const blocksPerYear: number =
+                args.blocksPerYear ??
+                (args.chain !== undefined ? getBlocksPerYear(args.chain) : undefined) ??
+                live?.blocksPerYear ??
+                getBlocksPerYear(hre.network.name);
+
+            if (annual[3] === 0n || annual[3] > WAD) throw new Error('Kink must be in (0, 1]');
+
+            const [base, multiplier, jump, kink] = annual;
+            const params = toPerBlock(BigInt(blocksPerYear), base, multiplier, jump, kink);
+
+            proposed = { blocksPerYear, params, points: [] };
+            for (const util of sweep(args.steps, kink)) {
+                proposed.points.push(
+                    point(
+                        util,
+                        getBorrowRate(params, util),
+                        getSupplyRate(params, util, reserveFactor),
+                        blocksPerYear
+                    )
+                );
+            }
+        }
+
+        const utilizations: MarketUtilization[] = [];
+        for (const market of markets) {
+            const [cash, borrows, reserves] = await Promise.all([
+                market.getCash(),
+                market.totalBorrows(),
+                market.totalReserves()
+            ]);
+            const util = await irm!.utilizationRate(cash, borrows, reserves);
+            const [borrowRate, supplyRate] = await Promise.all([
+                market.borrowRatePerBlock(),
+                market.supplyRatePerBlock()
+            ]);
+
+            utilizations.push({
+                market: await market.getAddress(),
+                symbol: await market.symbol(),
+                utilization: Number(formatEther(util)),
+                borrowApy: toApy(borrowRate, live!.blocksPerYear),
+                supplyApy: toApy(supplyRate, live!.blocksPerYear)
+            });
+        }
+
+        const output = render(args.format, reserveFactor, live, proposed, utilizations);
+        if (args.out !== undefined) {
+            fs.writeFileSync(args.out, output + '\n');
+            console.log(`>>>>> Written to ${args.out}`);
+        } else {
+            console.log(output);
+        }
+
+        return { reserveFactor, live, proposed, markets: utilizations };
+
+        function sweep(steps: number, kink: bigint): bigint[] {
+            const utils = Array.from(
+                { length: steps + 1 },
+                (_, i) => (WAD * BigInt(i)) / BigInt(steps)
+            );
+            return [...new Set([...utils, kink])].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+        }
+
+        function point(
+            util: bigint,
+            borrowRate: bigint,
+            supplyRate: bigint,
+            blocksPerYear: number
+        ): CurvePoint {
+            return {
+                utilization: Number(formatEther(util)),
+                borrowApy: toApy(borrowRate, blocksPerYear),
+                supplyApy: toApy(supplyRate, blocksPerYear)
+            };
+        }
+    });
+
+function render(
+    format: string,
+    reserveFactor: bigint,
+    live: Curve | undefined,
+    proposed: Curve | undefined,
+    markets: MarketUtilization[]
+): string {
+    if (format === 'json') return toJson({ reserveFactor, live, proposed, markets });
+
+    if (format === 'csv') {
+        const curves = [
+            ['live', live],
+            ['proposed', proposed]
+        ] as const;
+        const rows = curves.flatMap(([name, curve]) =>
+            (curve?.points ?? []).map(p =>
+                [name, p.utilization, p.borrowApy.toFixed(4), p.supplyApy.toFixed(4)].join(',')
+            )
+        );
+        return ['curve,utilization,borrow_apy,supply_apy', ...rows].join('\n');
+    }
+
+    const series = [];
+    if (live !== undefined) {
+        series.push(
+            { label: 'live borrow APY', symbol: 'B', points: toSeries(live, 'borrowApy') },
+            { label: 'live supply APY', symbol: 'S', points: toSeries(live, 'supplyApy') }
+        );
+    }
+    if (proposed !== undefined) {
+        series.push(
+            { label: 'proposed borrow APY', symbol: 'b', points: toSeries(proposed, 'borrowApy') },
+            { label: 'proposed supply APY', symbol: 's', points: toSeries(proposed, 'supplyApy') }
+        );
+    }
+    const markers = markets.map(m => ({
+        label: `${m.symbol} borrow ${m.borrowApy.toFixed(2)}%, supply ${m.supplyApy.toFixed(2)}%`,
+        x: m.utilization
+    }));
+
+    return [
+        `>>>>> Reserve factor: ${formatPercent(Number(reserveFactor) / 1e18)}`,
+        renderChart(series, markers, {
+            formatX: formatPercent,
+            formatY: y => `${y.toFixed(1)}%`
+        })
+    ].join('\n');
+}
+
+function toSeries(curve: Curve, key: 'borrowApy' | 'supplyApy'): [number, number][] {
+    return curve.points.map(p => [p.utilization, p[key]]);
+}
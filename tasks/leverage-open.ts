@@ -0,0 +1,72 @@
+import { task, types } from 'hardhat/config';
+import { resolveAddress } from './utils/deployments';
+import { formatUsd } from './utils/format';
+
+/**
+ * Opens a leveraged position with `Leverage.loop` from the first configured account.
+ * The borrow amount is checked against the collateral factor, the Balancer vault liquidity
+ * and the borrow cap, and the loop is simulated before it is sent.
+ */
+task('leverage-open', 'Open a leveraged position through the Leverage contract')
+    .addParam('token', 'Address of the underlying to loop')
+    .addParam('amount', 'Deposit, in underlying units, e.g. 1.5')
+    .addOptionalParam(
+        'multiple',
+        'Target supply over deposit, e.g. 3 for 3x (default: the largest safe one)',
+        undefined,
+        types.float
+    )
+    .addOptionalParam('minHealthFactor', 'Health factor to keep after the loop', 1.05, types.float)
+    .addOptionalParam('flashLoanFee', 'Balancer flash loan fee percentage, e.g. 0.0001', '0')
+    .addOptionalParam('leverage', 'Leverage address or manifest key', 'Leverage')
+    .addOptionalParam('comptroller', 'Comptroller address or manifest key', 'Comptroller')
+    .addFlag('dryRun', 'Only print the plan')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        // The SDK is built on typechain types, which only exist once the config is loaded
+        const { ClusterClient, LeveragePlanner } = await import('../sdk');
+
+        const [signer] = await ethers.getSigners();
+        const client = await ClusterClient.load(
+            { comptroller: await resolveAddress(hre, args.comptroller) },
+            signer
+        );
+        const planner = new LeveragePlanner(client, await resolveAddress(hre, args.leverage));
+
+        const token = await ethers.getContractAt('IERC20Metadata', ethers.getAddress(args.token));
+        const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+        const format = (amount: bigint) => `${ethers.formatUnits(amount, decimals)} ${symbol}`;
+
+        const plan = await planner.plan(
+            signer.address,
+            await token.getAddress(),
+            ethers.parseUnits(args.amount, decimals),
+            args.multiple,
+            {
+                minHealthFactor: args.minHealthFactor,
+                flashLoanFee: ethers.parseEther(args.flashLoanFee)
+            }
+        );
+
+        console.log(`>>>>> Leverage ${plan.leverage.toFixed(2)}x on ${symbol} for ${plan.account}`);
+        console.table({
+            deposit: format(plan.amount),
+            borrow: format(plan.borrowAmount),
+            'max safe borrow': `${format(plan.maxBorrowAmount)} (${plan.limitedBy})`,
+            'flash loan fee': format(plan.fee),
+            'approval to Leverage': format(plan.allowance),
+            'enter market': plan.enterMarket ? 'yes' : 'already entered',
+            'health factor after': plan.healthFactor?.toFixed(4) ?? '-'
+        });
+
+        if (args.dryRun) return plan;
+
+        const receipt = await planner.open(plan);
+        console.log(`>>>>> Loop sent in ${receipt.hash}`);
+
+        const { healthFactor, liquidity } = await client.getAccountHealth(signer.address);
+        console.log(`Health factor: ${healthFactor?.toFixed(4) ?? '-'}`);
+        console.log(`Liquidity:     ${formatUsd(liquidity)}`);
+
+        return plan;
+    });
@@ -0,0 +1,77 @@
+import { task, types } from 'hardhat/config';
+import { getDeployment, resolveAddress } from './utils/deployments';
+import { formatUsd } from './utils/format';
+
+/**
+ * Runs the liquidation keeper with the first configured account, which must hold the
+ * underlying of the borrows it repays.
+ */
+task('liquidation-keeper', 'Liquidate the accounts in shortfall')
+    .addOptionalParam('comptroller', 'Comptroller address or manifest key', 'Comptroller')
+    .addOptionalParam(
+        'fromBlock',
+        'First block to scan for borrowers (default: Comptroller deployment block)',
+        undefined,
+        types.int
+    )
+    .addOptionalParam('batchSize', 'Blocks fetched per eth_getLogs request', 2000, types.int)
+    .addOptionalParam('interval', 'Seconds between two runs', 15, types.int)
+    .addFlag('once', 'Run once and exit')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        // The SDK is built on typechain types, which only exist once the config is loaded
+        const { ClusterClient, LiquidationKeeper } = await import('../sdk');
+
+        const [liquidator] = await ethers.getSigners();
+        const fromBlock =
+            args.fromBlock ?? (await getDeployment(hre, args.comptroller))?.blockNumber ?? 0;
+
+        const client = await ClusterClient.load(
+            { comptroller: await resolveAddress(hre, args.comptroller) },
+            liquidator
+        );
+        const keeper = new LiquidationKeeper(client, fromBlock, args.batchSize);
+        console.log(`>>>>> Keeper ${liquidator.address} watching from block ${fromBlock}`);
+
+        const runOnce = async () => {
+            // run syncs the borrowers first
+            const tracked = keeper.borrowers.size;
+            const results = await keeper.run();
+            if (keeper.borrowers.size > tracked) {
+                const found = keeper.borrowers.size - tracked;
+                console.log(`${found} new borrowers, ${keeper.borrowers.size} tracked`);
+            }
+
+            for (const { borrower, plan, receipt, error } of results) {
+                const reason = error?.message.split('\n')[0];
+                if (plan === undefined) {
+                    console.log(`Failed to plan the liquidation of ${borrower}: ${reason}`);
+                    continue;
+                }
+
+                const summary =
+                    `${borrower}: repay ${plan.repayAmount} of ${plan.clTokenBorrowed} ` +
+                    `(${formatUsd(plan.repayValue)}), seize ${plan.seizeTokens} of ` +
+                    `${plan.clTokenCollateral}`;
+
+                if (error) {
+                    console.log(`Failed to liquidate ${summary}: ${reason}`);
+                } else {
+                    console.log(`>>>>> Liquidated ${summary} in ${receipt!.hash}`);
+                }
+            }
+        };
+
+        for (;;) {
+            try {
+                await runOnce();
+            } catch (error) {
+                // e.g. a failed log request or an RPC timeout, the next run resumes the sync
+                if (args.once) throw error;
+                console.log(`Run failed: ${(error as Error).message.split('\n')[0]}`);
+            }
+
+            if (args.once) return;
+            await new Promise(resolve => setTimeout(resolve, args.interval * 1000));
+        }
+    });
@@ -0,0 +1,183 @@
+import { task, types } from 'hardhat/config';
+import { resolveAddress } from './utils/deployments';
+import { formatPercent, formatUsd, toJson } from './utils/format';
+import { getCompositeComponents, scalePrice } from './utils/oracles';
+
+interface OracleReport {
+    market: string;
+    symbol: string;
+    underlying: string;
+    underlyingSymbol: string;
+    /** `PriceOracle.getFeed(underlying symbol)`, zero address when none is set */
+    feed: string;
+    /** USD price of one underlying token scaled by 1e18, the `assetPrices` override */
+    override: bigint;
+    /** latest feed answer scaled to 18 decimals, `null` when the feed is missing or reverts */
+    feedPrice: bigint | null;
+    /** `updatedAt` of the feed, the oldest of its component feeds for a composite oracle */
+    feedUpdatedAt: number | null;
+    /** the feed `feedUpdatedAt` comes from */
+    updatedFeed: string | null;
+    /** seconds since `updatedAt` */
+    staleness: number | null;
+    /** relative difference of the override to the feed price */
+    deviation: number | null;
+    /** where `getUnderlyingPrice` takes the price from */
+    source: 'override' | 'feed' | 'none';
+    /** `getUnderlyingPrice`, 0 when it reverts */
+    price: bigint;
+    flags: string[];
+}
+
+/**
+ * Shows which path `PriceOracle` prices every listed market with: an owner override, which
+ * wins forever once set, or the Chainlink feed of the underlying symbol. Forgotten overrides,
+ * stale feeds and markets that would price at 0 are flagged.
+ */
+task('oracle-audit', 'Audit the price source of every listed market')
+    .addOptionalParam('comptroller', 'Comptroller address or manifest key', 'Comptroller')
+    .addOptionalParam(
+        'maxStaleness',
+        'Seconds after which a feed answer is flagged stale',
+        86400,
+        types.int
+    )
+    .addOptionalParam(
+        'maxDeviation',
+        'Override to feed deviation that is flagged, e.g. 0.02',
+        0.02,
+        types.float
+    )
+    .addFlag('json', 'Print the report as JSON')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        // The SDK is built on typechain types, which only exist once the config is loaded
+        const { ClusterClient } = await import('../sdk');
+
+        const client = await ClusterClient.load(
+            { comptroller: await resolveAddress(hre, args.comptroller) },
+            ethers.provider
+        );
+        const { priceOracle } = client;
+        const now = (await ethers.provider.getBlock('latest'))!.timestamp;
+
+        /** answer, decimals and `updatedAt` of a feed */
+        const readFeed = async (feed: string): Promise<[bigint, number, number]> => {
+            const aggregator = await ethers.getContractAt('AggregatorV3Interface', feed);
+            const [[, answer, , updatedAt], decimals] = await Promise.all([
+                aggregator.latestRoundData(),
+                aggregator.decimals()
+            ]);
+            return [answer, Number(decimals), Number(updatedAt)];
+        };
+
+        const reports: OracleReport[] = [];
+        for (const market of await client.getAllMarkets()) {
+            const [isListed] = await client.comptroller.getMarketInfo(market);
+            if (!isListed) continue;
+
+            const clToken = client.market(market);
+            const underlying = await client.underlying(market);
+            const [symbol, underlyingSymbol] = await Promise.all([
+                clToken.symbol(),
+                underlying.symbol()
+            ]);
+            const underlyingAddress = await underlying.getAddress();
+
+            const [feed, override, price] = await Promise.all([
+                priceOracle.getFeed(underlyingSymbol),
+                priceOracle.assetPrices(underlyingAddress),
+                priceOracle.getUnderlyingPrice(market).catch(() => 0n)
+            ]);
+
+            let feedPrice: bigint | null = null;
+            let feedUpdatedAt: number | null = null;
+            let updatedFeed: string | null = null;
+            const flags: string[] = [];
+            if (feed !== ethers.ZeroAddress) {
+                try {
+                    const [answer, decimals] = await readFeed(feed);
+                    feedPrice = scalePrice(answer, decimals, 18);
+
+                    // A composite oracle answers with the current time, its feeds tell the age
+                    const components = (await getCompositeComponents(hre, feed)) ?? [feed];
+                    for (const component of components) {
+                        const [, , updatedAt] = await readFeed(component);
+                        if (feedUpdatedAt === null || updatedAt < feedUpdatedAt) {
+                            feedUpdatedAt = updatedAt;
+                            updatedFeed = component;
+                        }
+                    }
+                } catch {
+                    flags.push('feed reverts');
+                }
+            }
+
+            const staleness = feedUpdatedAt === null ? null : now - feedUpdatedAt;
+            const deviation =
+                override > 0n && feedPrice !== null && feedPrice > 0n
+                    ? Number(override - feedPrice) / Number(feedPrice)
+                    : null;
+
+            if (price === 0n) flags.push('zero price');
+            if (override > 0n) flags.push('override');
+            if (feedPrice !== null && feedPrice <= 0n) flags.push('bad answer');
+            if (feedUpdatedAt === 0 || (staleness !== null && staleness > args.maxStaleness)) {
+                flags.push('stale');
+            }
+            if (deviation !== null && Math.abs(deviation) > args.maxDeviation) {
+                flags.push('deviation');
+            }
+
+            reports.push({
+                market,
+                symbol,
+                underlying: underlyingAddress,
+                underlyingSymbol,
+                feed,
+                override,
+                feedPrice,
+                feedUpdatedAt,
+                updatedFeed,
+                staleness,
+                deviation,
+                source: override > 0n ? 'override' : feed !== ethers.ZeroAddress ? 'feed' : 'none',
+                price,
+                flags
+            });
+        }
+
+        if (args.json) {
+            console.log(toJson(reports));
+            return reports;
+        }
+
+        console.log(`>>>>> Price oracle ${await priceOracle.getAddress()}`);
+        console.table(
+            reports.map(r => ({
+                market: r.symbol,
+                underlying: r.underlyingSymbol,
+                source: r.source,
+                feed: r.feed === ethers.ZeroAddress ? '-' : r.feed,
+                override: r.override > 0n ? formatUsd(r.override) : '-',
+                'feed price': r.feedPrice === null ? '-' : formatUsd(r.feedPrice),
+                'updated ago': r.staleness === null ? '-' : formatDuration(r.staleness),
+                deviation: r.deviation === null ? '-' : formatPercent(r.deviation, true),
+                flags: r.flags.join(', ')
+            }))
+        );
+
+        const flagged = reports.filter(r => r.flags.length > 0);
+        if (flagged.length > 0) {
+            console.log(`${flagged.length} of ${reports.length} markets flagged`);
+        }
+
+        return reports;
+    });
+
+function formatDuration(seconds: number): string {
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+    if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+    return `${(seconds / 86400).toFixed(1)}d`;
+}
@@ -0,0 +1,148 @@
+import { task } from 'hardhat/config';
+import { resolveAddress } from './utils/deployments';
+
+const MARKET_ACTIONS = ['mint', 'borrow'];
+const GLOBAL_ACTIONS = ['transfer', 'seize'];
+
+/**
+ * Pauses (or with `--unpause` resumes) actions of the given markets, or of every market, in
+ * one run. The global transfer and seize pauses are left alone when markets are given, unless
+ * passed in `--actions`. Every call is simulated before the first one is sent, so a wrong signer or market
+ * fails without sending anything, then they are sent back to back with consecutive nonces
+ * without waiting in between. The pause matrix is read back from the chain afterwards.
+ *
+ * Like the Comptroller, only the admin may unpause. The pause guardian can only pause.
+ */
+task('pause', 'Pause or unpause market and global actions of the Comptroller')
+    .addOptionalParam(
+        'actions',
+        `Comma separated actions among ${[...MARKET_ACTIONS, ...GLOBAL_ACTIONS].join(', ')}, ` +
+            'or all (default: all, only the market actions when markets are given)'
+    )
+    .addOptionalParam('comptroller', 'Comptroller address or manifest key', 'Comptroller')
+    .addFlag('unpause', 'Unpause the actions instead, admin only')
+    .addFlag('status', 'Only print the current pause matrix')
+    .addOptionalVariadicPositionalParam(
+        'markets',
+        'Markets to pause, addresses or manifest keys (default: every market)'
+    )
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        const comptrollerAddress = await resolveAddress(hre, args.comptroller);
+        const comptroller = await ethers.getContractAt('Comptroller', comptrollerAddress);
+
+        const allMarkets = [...(await comptroller.getAllMarkets())];
+        const symbols = new Map<string, string>();
+        for (const market of allMarkets) {
+            symbols.set(market, await (await ethers.getContractAt('ClErc20', market)).symbol());
+        }
+
+        const printStatus = async () => {
+            console.table(
+                await Promise.all(
+                    allMarkets.map(async market => ({
+                        market: symbols.get(market),
+                        address: market,
+                        mint: await comptroller.mintGuardianPaused(market),
+                        borrow: await comptroller.borrowGuardianPaused(market)
+                    }))
+                )
+            );
+            console.log(`Transfer paused: ${await comptroller.transferGuardianPaused()}`);
+            console.log(`Seize paused: ${await comptroller.seizeGuardianPaused()}`);
+        };
+
+        if (args.status) {
+            console.log(`Admin: ${await comptroller.admin()}`);
+            console.log(`Pause guardian: ${await comptroller.pauseGuardian()}`);
+            await printStatus();
+            return;
+        }
+
+        // transfer and seize are paused for every market at once, so only on request
+        const defaultActions = args.markets === undefined ? 'all' : MARKET_ACTIONS.join(',');
+        const requested: string = args.actions ?? defaultActions;
+        const actions: string[] =
+            requested === 'all'
+                ? [...MARKET_ACTIONS, ...GLOBAL_ACTIONS]
+                : requested.split(',').map(a => a.trim().toLowerCase());
+        for (const action of actions) {
+            if (!MARKET_ACTIONS.includes(action) && !GLOBAL_ACTIONS.includes(action)) {
+                throw new Error(`Unknown action "${action}"`);
+            }
+        }
+
+        const markets: string[] =
+            args.markets === undefined
+                ? allMarkets
+                : await Promise.all(args.markets.map((m: string) => resolveAddress(hre, m)));
+        for (const market of markets) {
+            if (!symbols.has(market)) throw new Error(`Market ${market} is not listed`);
+        }
+
+        const [signer] = await ethers.getSigners();
+        const [admin, pauseGuardian] = await Promise.all([
+            comptroller.admin(),
+            comptroller.pauseGuardian()
+        ]);
+        if (args.unpause && signer.address !== admin) {
+            throw new Error(`Only the admin ${admin} can unpause, not ${signer.address}`);
+        }
+        if (signer.address !== admin && signer.address !== pauseGuardian) {
+            throw new Error(`${signer.address} is neither the admin nor the pause guardian`);
+        }
+
+        const state = !args.unpause;
+        // Actions already in the requested state are left alone
+        const calls: { label: string; method: string; args: unknown[] }[] = [];
+        for (const market of markets) {
+            const symbol = symbols.get(market);
+            const [mintPaused, borrowPaused] = await Promise.all([
+                comptroller.mintGuardianPaused(market),
+                comptroller.borrowGuardianPaused(market)
+            ]);
+            if (actions.includes('mint') && mintPaused !== state) {
+                calls.push({ label: `mint ${symbol}`, method: 'setMintPaused', args: [market] });
+            }
+            if (actions.includes('borrow') && borrowPaused !== state) {
+                calls.push({
+                    label: `borrow ${symbol}`,
+                    method: 'setBorrowPaused',
+                    args: [market]
+                });
+            }
+        }
+        const [transferPaused, seizePaused] = await Promise.all([
+            comptroller.transferGuardianPaused(),
+            comptroller.seizeGuardianPaused()
+        ]);
+        if (actions.includes('transfer') && transferPaused !== state) {
+            calls.push({ label: 'transfer', method: 'setTransferPaused', args: [] });
+        }
+        if (actions.includes('seize') && seizePaused !== state) {
+            calls.push({ label: 'seize', method: 'setSeizePaused', args: [] });
+        }
+
+        if (calls.length === 0) {
+            console.log('>>>>> Nothing to change');
+        } else {
+            const connected = comptroller.connect(signer);
+            for (const call of calls) {
+                await connected.getFunction(call.method).staticCall(...call.args, state);
+            }
+
+            let nonce = await signer.getNonce('pending');
+            const txs = [];
+            for (const call of calls) {
+                const tx = await connected
+                    .getFunction(call.method)
+                    .send(...call.args, state, { nonce: nonce++ });
+                console.log(`${state ? 'Pausing' : 'Unpausing'} ${call.label}: ${tx.hash}`);
+                txs.push(tx);
+            }
+            await Promise.all(txs.map(tx => tx.wait()));
+            console.log(`>>>>> ${txs.length} transactions confirmed`);
+        }
+
+        await printStatus();
+    });
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import { task } from 'hardhat/config';
+import { RiskParamsConfig } from '../config/types';
+import { loadConfigFile } from './utils/config';
+import { resolveAddress } from './utils/deployments';
+import { planRiskParams } from './utils/riskParams';
+import { toSafeBatch } from './utils/safe';
+
+/**
+ * Diffs a desired-state file of market risk parameters against the chain and writes the
+ * calls that apply it as a Safe Transaction Builder batch. Nothing is sent: the batch is
+ * imported into the Safe of the admin, reviewed against the printed summary and executed
+ * there.
+ */
+task('propose-risk-params', 'Build a Safe batch applying desired market risk parameters')
+    .addParam('params', 'Path to the desired risk parameters (.ts or .json)')
+    .addOptionalParam('comptroller', 'Comptroller address or manifest key', 'Comptroller')
+    .addOptionalParam('safe', 'Safe executing the batch, checked against the admins')
+    .addOptionalParam('name', 'Name of the batch', 'Risk parameters')
+    .addOptionalParam('out', 'File to write the batch to instead of printing it')
+    .setAction(async (args, hre) => {
+        const { ethers } = hre;
+        const config = loadConfigFile<RiskParamsConfig>(args.params);
+        const comptrollerAddress = await resolveAddress(hre, args.comptroller);
+
+        const calls = await planRiskParams(hre, comptrollerAddress, config);
+        if (calls.length === 0) {
+            console.log('>>>>> On-chain state already matches, nothing to propose');
+            return undefined;
+        }
+
+        console.table(
+            calls.flatMap((call, i) =>
+                call.changes.map(c => ({
+                    tx: i + 1,
+                    method: call.method,
+                    market: c.market,
+                    parameter: c.parameter,
+                    current: c.current,
+                    desired: c.desired
+                }))
+            )
+        );
+
+        if (args.safe !== undefined) {
+            const safe = ethers.getAddress(args.safe);
+            const comptroller = await ethers.getContractAt('Comptroller', comptrollerAddress);
+            const admins = new Map<string, string>();
+            for (const { to } of calls) {
+                if (admins.has(to)) continue;
+                const target =
+                    to === comptrollerAddress
+                        ? comptroller
+                        : await ethers.getContractAt('ClErc20', to);
+                admins.set(to, await target.admin());
+            }
+            for (const [to, admin] of admins) {
+                if (admin !== safe) {
+                    console.warn(`WARNING: the admin of ${to} is ${admin}, not the Safe ${safe}`);
+                }
+            }
+        }
+
+        const { chainId } = await ethers.provider.getNetwork();
+        const batch = toSafeBatch(chainId, calls, {
+            name: args.name,
+            description: calls
+                .flatMap(call => call.changes)
+                .map(c => `${c.market} ${c.parameter}: ${c.current} -> ${c.desired}`)
+                .join('\n'),
+            safe: args.safe
+        });
+
+        const json = JSON.stringify(batch, null, 4);
+        if (args.out !== undefined) {
+            fs.writeFileSync(args.out, json + '\n');
+            console.log(`>>>>> ${calls.length} transactions written to ${args.out}`);
+        } else {
+            console.log(json);
+        }
+
+        return batch;
+    });
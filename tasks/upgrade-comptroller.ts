@@ -0,0 +1,9 @@
+import { task } from 'hardhat/config';
+import { upgradeProxy } from './utils/upgrades';
+
+task('upgrade-comptroller', 'Upgrade the Comptroller proxy')
+    .addOptionalParam('contract', 'Name of the new implementation contract', 'Comptroller')
+    .addFlag('propose', 'Only deploy the implementation and print the upgrade call for the admin')
+    .setAction(async ({ contract, propose }, hre) => {
+        return upgradeProxy(hre, 'Comptroller', contract, propose);
+    });
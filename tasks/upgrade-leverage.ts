@@ -0,0 +1,9 @@
+import { task } from 'hardhat/config';
+import { upgradeProxy } from './utils/upgrades';
+
+task('upgrade-leverage', 'Upgrade the Leverage proxy')
+    .addOptionalParam('contract', 'Name of the new implementation contract', 'Leverage')
+    .addFlag('propose', 'Only deploy the implementation and print the upgrade call for the admin')
+    .setAction(async ({ contract, propose }, hre) => {
+        return upgradeProxy(hre, 'Leverage', contract, propose);
+    });
@@ -0,0 +1,39 @@
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const SECONDS_PER_YEAR = 365 * SECONDS_PER_DAY;
+
+/**
+ * Average time in seconds between two `block.number` of the chains the protocol runs on.
+ */
+export const BLOCK_TIMES: Record<string, number> = {
+    mainnet: 12,
+    sepolia: 12,
+    // block.number returns the L1 block number on Arbitrum
+    arbitrum: 12,
+    optimism: 2,
+    base: 2
+};
+
+/**
+ * Number of blocks per year for a chain preset, e.g. 2628000 for mainnet.
+ */
+export function getBlocksPerYear(chain: string): number {
+    return SECONDS_PER_YEAR / getBlockTime(chain);
+}
+
+/**
+ * Number of blocks per day for a chain preset, e.g. 7200 for mainnet.
+ */
+export function getBlocksPerDay(chain: string): number {
+    return SECONDS_PER_DAY / getBlockTime(chain);
+}
+
+function getBlockTime(chain: string): number {
+    const blockTime = BLOCK_TIMES[chain];
+    if (blockTime === undefined) {
+        throw new Error(
+            `Unknown chain "${chain}", expected one of ${Object.keys(BLOCK_TIMES).join(', ')}`
+        );
+    }
+
+    return blockTime;
+}
@@ -0,0 +1,87 @@
+export interface ChartSeries {
+    label: string;
+    /** character the series is drawn with */
+    symbol: string;
+    /** [x, y] points sorted by x, linearly interpolated between them */
+    points: [number, number][];
+}
+
+export interface ChartMarker {
+    label: string;
+    x: number;
+}
+
+export interface ChartOptions {
+    width?: number;
+    height?: number;
+    xMax?: number;
+    formatX?: (x: number) => string;
+    formatY?: (y: number) => string;
+}
+
+function interpolate(points: [number, number][], x: number): number | undefined {
+    for (let i = 1; i < points.length; i++) {
+        const [x0, y0] = points[i - 1];
+        const [x1, y1] = points[i];
+        if (x < x0 || x > x1) continue;
+
+        return x1 === x0 ? y1 : y0 + ((y1 - y0) * (x - x0)) / (x1 - x0);
+    }
+    return undefined;
+}
+
+/**
+ * Draws line series on a terminal chart, from x = 0 to `xMax` and y = 0 to the largest value.
+ * Markers are drawn as vertical dotted lines numbered under the x axis.
+ */
+export function renderChart(
+    series: ChartSeries[],
+    markers: ChartMarker[] = [],
+    { width = 64, height = 16, xMax = 1, formatX = String, formatY = String }: ChartOptions = {}
+): string {
+    const yMax = Math.max(...series.flatMap(s => s.points.map(([, y]) => y)), 0) || 1;
+    const grid = Array.from({ length: height }, () => Array<string>(width).fill(' '));
+    const xOf = (column: number) => (column / (width - 1)) * xMax;
+    const columnOf = (x: number) => Math.round((x / xMax) * (width - 1));
+
+    for (const marker of markers) {
+        const column = columnOf(marker.x);
+        if (column < 0 || column >= width) continue;
+        for (const row of grid) row[column] = ':';
+    }
+
+    for (const { symbol, points } of series) {
+        for (let column = 0; column < width; column++) {
+            const y = interpolate(points, xOf(column));
+            if (y === undefined) continue;
+
+            const row = height - 1 - Math.round((y / yMax) * (height - 1));
+            grid[row][column] = symbol;
+        }
+    }
+
+    const labels = grid.map((_, i) => (i % 4 === 0 ? formatY(yMax * (1 - i / (height - 1))) : ''));
+    labels[height - 1] = formatY(0);
+    const labelWidth = Math.max(...labels.map(l => l.length));
+
+    const lines = grid.map((row, i) => `${labels[i].padStart(labelWidth)} |${row.join('')}`);
+    lines.push(`${' '.repeat(labelWidth)} +${'-'.repeat(width)}`);
+
+    const markerRow = Array<string>(width).fill(' ');
+    markers.forEach((marker, i) => {
+        const column = columnOf(marker.x);
+        if (column >= 0 && column < width) markerRow[column] = String(i + 1).slice(-1);
+    });
+    if (markers.length > 0) lines.push(`${' '.repeat(labelWidth)}  ${markerRow.join('')}`);
+
+    const left = formatX(0);
+    const right = formatX(xMax);
+    lines.push(
+        `${' '.repeat(labelWidth)}  ${left}${right.padStart(width - left.length)}`,
+        '',
+        ...series.map(s => `  ${s.symbol}  ${s.label}`),
+        ...markers.map((m, i) => `  ${String(i + 1).slice(-1)}  ${m.label} at ${formatX(m.x)}`)
+    );
+
+    return lines.join('\n');
+}
@@ -0,0 +1,12 @@
+import path from 'path';
+
+/**
+ * Loads a config file given relative to the working directory.
+ * `.json` files are parsed as is, `.ts`/`.js` modules must default-export the config.
+ */
+export function loadConfigFile<T>(file: string): T {
+    const resolved = path.resolve(process.cwd(), file);
+    const loaded = require(resolved);
+
+    return (loaded.default ?? loaded) as T;
+}
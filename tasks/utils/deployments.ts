@@ -0,0 +1,206 @@
+import fs from 'fs';
+import path from 'path';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { toJson } from './format';
+import { StorageVariable, getStorageLayout } from './storageLayout';
+
+export interface DeploymentRecord {
+    contractName: string;
+    address: string;
+    /** constructor args, or initializer args for proxies */
+    args: unknown[];
+    txHash?: string;
+    blockNumber?: number;
+    /** implementation address, only set for proxies */
+    implementation?: string;
+    /** storage layout of the implementation, only set for proxies */
+    storageLayout?: StorageVariable[];
+    /** whether the contract is verified on the block explorer */
+    verified?: boolean;
+}
+
+export interface DeploymentManifest {
+    network: string;
+    chainId: number;
+    contracts: Record<string, DeploymentRecord>;
+}
+
+// The in-process hardhat network is thrown away after every run, so its manifest is never written.
+const EPHEMERAL_NETWORK = 'hardhat';
+
+const manifests = new Map<string, DeploymentManifest>();
+
+function manifestPath(hre: HardhatRuntimeEnvironment): string {
+    return path.join(hre.config.paths.root, 'deployments', `${hre.network.name}.json`);
+}
+
+/**
+ * Returns the deployment manifest of the current network, i.e. `deployments/<network>.json`.
+ */
+export async function readManifest(hre: HardhatRuntimeEnvironment): Promise<DeploymentManifest> {
+    const cached = manifests.get(hre.network.name);
+    if (cached !== undefined) return cached;
+
+    const file = manifestPath(hre);
+    const manifest: DeploymentManifest = fs.existsSync(file)
+        ? JSON.parse(fs.readFileSync(file, 'utf8'))
+        : {
+              network: hre.network.name,
+              chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
+              contracts: {}
+          };
+
+    manifests.set(hre.network.name, manifest);
+    return manifest;
+}
+
+/**
+ * Records a deployment under `key` and writes the manifest to disk.
+ */
+export async function saveDeployment(
+    hre: HardhatRuntimeEnvironment,
+    key: string,
+    record: DeploymentRecord
+) {
+    const manifest = await readManifest(hre);
+    manifest.contracts[key] = record;
+
+    if (hre.network.name === EPHEMERAL_NETWORK) return;
+
+    const file = manifestPath(hre);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write to a temporary file first so an interrupted run never leaves a truncated manifest
+    fs.writeFileSync(`${file}.tmp`, toJson(manifest) + '\n');
+    fs.renameSync(`${file}.tmp`, file);
+}
+
+export async function getDeployment(
+    hre: HardhatRuntimeEnvironment,
+    key: string
+): Promise<DeploymentRecord | undefined> {
+    return (await readManifest(hre)).contracts[key];
+}
+
+/**
+ * Looks up the address recorded under `key`, throws if there is none.
+ */
+export async function getDeploymentAddress(
+    hre: HardhatRuntimeEnvironment,
+    key: string
+): Promise<string> {
+    const record = await getDeployment(hre, key);
+    if (record === undefined) {
+        throw new Error(`No "${key}" deployment recorded for network ${hre.network.name}`);
+    }
+
+    return record.address;
+}
+
+/**
+ * Returns the recorded deployment of `key` if its code still exists on chain.
+ * Throws if it was deployed with other args, e.g. once the config changed.
+ */
+async function findExisting(hre: HardhatRuntimeEnvironment, key: string, args: unknown[]) {
+    const record = await getDeployment(hre, key);
+    if (record === undefined) return undefined;
+
+    if ((await hre.ethers.provider.getCode(record.address)) === '0x') {
+        console.log(`Recorded ${key} at ${record.address} has no code, redeploying.`);
+        return undefined;
+    }
+
+    // Compared as written to the manifest, where bigints are strings
+    if (toJson(record.args) !== toJson(args)) {
+        throw new Error(
+            `Recorded ${key} at ${record.address} was deployed with other args, ` +
+                'remove it from the manifest to deploy it again'
+        );
+    }
+
+    console.log(`Reusing ${key} deployed at ${record.address}`);
+    return record;
+}
+
+/**
+ * Deploys `contractName` and records it under `key`. When the manifest already holds
+ * a live deployment for `key` with the same args, nothing is deployed and its address is returned.
+ * @param check Run on the reused or deployed contract, a new one is only recorded once it passes
+ * @return The address of the contract
+ */
+export async function deployContract(
+    hre: HardhatRuntimeEnvironment,
+    key: string,
+    contractName: string,
+    args: unknown[] = [],
+    check?: (address: string) => Promise<void>
+): Promise<string> {
+    const existing = await findExisting(hre, key, args);
+    if (existing !== undefined) {
+        await check?.(existing.address);
+        return existing.address;
+    }
+
+    const contract = await hre.ethers.deployContract(contractName, args);
+    await contract.waitForDeployment();
+    const receipt = await contract.deploymentTransaction()?.wait();
+
+    const address = await contract.getAddress();
+    await check?.(address);
+    await saveDeployment(hre, key, {
+        contractName,
+        address,
+        args,
+        txHash: receipt?.hash,
+        blockNumber: receipt?.blockNumber
+    });
+
+    console.log(`${key} deployed to:`, address);
+    return address;
+}
+
+/**
+ * Deploys `contractName` behind a proxy with `upgrades.deployProxy` and records it under `key`.
+ * When the manifest already holds a live deployment for `key` with the same args, nothing is
+ * deployed.
+ * @return The address of the proxy
+ */
+export async function deployProxy(
+    hre: HardhatRuntimeEnvironment,
+    key: string,
+    contractName: string,
+    args: unknown[] = []
+): Promise<string> {
+    const existing = await findExisting(hre, key, args);
+    if (existing !== undefined) return existing.address;
+
+    const factory = await hre.ethers.getContractFactory(contractName);
+    const proxy = await hre.upgrades.deployProxy(factory, args);
+    await proxy.waitForDeployment();
+    const receipt = await proxy.deploymentTransaction()?.wait();
+
+    const address = await proxy.getAddress();
+    await saveDeployment(hre, key, {
+        contractName,
+        address,
+        args,
+        txHash: receipt?.hash,
+        blockNumber: receipt?.blockNumber,
+        implementation: await hre.upgrades.erc1967.getImplementationAddress(address),
+        storageLayout: await getStorageLayout(hre, contractName)
+    });
+
+    console.log(`${key} proxy deployed to:`, address);
+    return address;
+}
+
+/**
+ * Returns `addressOrKey` when it is an address, otherwise the address recorded under that key.
+ */
+export async function resolveAddress(
+    hre: HardhatRuntimeEnvironment,
+    addressOrKey: string
+): Promise<string> {
+    if (hre.ethers.isAddress(addressOrKey)) return hre.ethers.getAddress(addressOrKey);
+
+    return getDeploymentAddress(hre, addressOrKey);
+}
@@ -0,0 +1,25 @@
+import { formatEther } from 'ethers';
+
+/**
+ * JSON with bigints written as decimal strings.
+ */
+export function toJson(value: unknown): string {
+    return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v), 4);
+}
+
+/**
+ * Formats a USD value scaled by 1e18, e.g. `$1,234.56`.
+ */
+export function formatUsd(value: bigint): string {
+    return `$${Number(formatEther(value)).toLocaleString('en-US', {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2
+    })}`;
+}
+
+/**
+ * Formats a ratio as a percentage, e.g. `0.1234` as `12.34%`.
+ */
+export function formatPercent(ratio: number, signed = false): string {
+    return `${signed && ratio > 0 ? '+' : ''}${(ratio * 100).toFixed(2)}%`;
+}
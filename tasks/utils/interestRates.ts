@@ -0,0 +1,61 @@
+const BASE = 10n ** 18n;
+
+/**
+ * Per-block parameters of a JumpRateModel, all mantissas scaled by 1e18.
+ */
+export interface JumpRateModelParams {
+    baseRatePerBlock: bigint;
+    multiplierPerBlock: bigint;
+    jumpMultiplierPerBlock: bigint;
+    kink: bigint;
+}
+
+/**
+ * Converts annual parameters to per-block ones, truncating as `JumpRateModel._updateJumpRateModel`.
+ */
+export function toPerBlock(
+    blocksPerYear: bigint,
+    baseRatePerYear: bigint,
+    multiplierPerYear: bigint,
+    jumpMultiplierPerYear: bigint,
+    kink: bigint
+): JumpRateModelParams {
+    return {
+        baseRatePerBlock: baseRatePerYear / blocksPerYear,
+        multiplierPerBlock: (multiplierPerYear * BASE) / (blocksPerYear * kink),
+        jumpMultiplierPerBlock: jumpMultiplierPerYear / blocksPerYear,
+        kink
+    };
+}
+
+/**
+ * Borrow rate per block at utilization `util` (scaled by 1e18), as `JumpRateModel.getBorrowRate`.
+ */
+export function getBorrowRate(model: JumpRateModelParams, util: bigint): bigint {
+    if (util <= model.kink) {
+        return (util * model.multiplierPerBlock) / BASE + model.baseRatePerBlock;
+    }
+
+    const normalRate = (model.kink * model.multiplierPerBlock) / BASE + model.baseRatePerBlock;
+    return ((util - model.kink) * model.jumpMultiplierPerBlock) / BASE + normalRate;
+}
+
+/**
+ * Supply rate per block at utilization `util`, same as `JumpRateModel.getSupplyRate`.
+ */
+export function getSupplyRate(
+    model: JumpRateModelParams,
+    util: bigint,
+    reserveFactor: bigint
+): bigint {
+    const rateToPool = (getBorrowRate(model, util) * (BASE - reserveFactor)) / BASE;
+    return (util * rateToPool) / BASE;
+}
+
+/**
+ * Annual percentage yield of a per-block rate, compounded daily.
+ */
+export function toApy(ratePerBlock: bigint, blocksPerYear: number): number {
+    const ratePerDay = (Number(ratePerBlock) / 1e18) * (blocksPerYear / 365);
+    return (Math.pow(1 + ratePerDay, 365) - 1) * 100;
+}
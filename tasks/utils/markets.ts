@@ -0,0 +1,17 @@
+/**
+ * Initial exchange rate of a new market following Compound's convention of
+ * 1 clToken = 0.02 underlying, scaled by 1e18 and adjusted for the decimals of both tokens.
+ * e.g. an 18 decimals underlying with an 8 decimals clToken gives 2e26.
+ */
+export function getInitialExchangeRate(underlyingDecimals: number, clTokenDecimals = 8): bigint {
+    const exponent = 18 + underlyingDecimals - clTokenDecimals;
+    const rate = exponent >= 2 ? 2n * 10n ** BigInt(exponent - 2) : 0n;
+    if (rate === 0n) {
+        throw new Error(
+            `Cannot derive an exchange rate for ${underlyingDecimals} decimals underlying ` +
+                `and ${clTokenDecimals} decimals clToken`
+        );
+    }
+
+    return rate;
+}
@@ -0,0 +1,159 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import feeds from '../../config/feeds';
+
+/** decimals of the prices of CompositeChainlinkOracle */
+export const COMPOSITE_DECIMALS = 18;
+
+// base feed whose multiplier is the stETH token rather than a feed
+const STETH_USD_DESCRIPTION = 'STETH / USD';
+
+export interface CompositeOracleFeeds {
+    base: string;
+    multiplier: string;
+    secondMultiplier?: string;
+}
+
+/**
+ * Returns `nameOrAddress` when it is an address, otherwise the feed registered under that name
+ * in `config/feeds.ts` for `network`.
+ */
+export function resolveFeed(
+    hre: HardhatRuntimeEnvironment,
+    nameOrAddress: string,
+    network = hre.network.name
+): string {
+    if (hre.ethers.isAddress(nameOrAddress)) return hre.ethers.getAddress(nameOrAddress);
+
+    const address = feeds[network]?.[nameOrAddress];
+    if (address === undefined) {
+        const known = Object.keys(feeds[network] ?? {});
+        throw new Error(
+            `Unknown feed "${nameOrAddress}" on ${network}, expected an address or one of: ` +
+                (known.length > 0 ? known.join(', ') : 'none')
+        );
+    }
+    return address;
+}
+
+/**
+ * Scales a price between decimals, truncating as `CompositeChainlinkOracle._scalePrice`.
+ */
+export function scalePrice(price: bigint, priceDecimals: number, expectedDecimals: number): bigint {
+    if (priceDecimals < expectedDecimals) {
+        return price * 10n ** BigInt(expectedDecimals - priceDecimals);
+    }
+    if (priceDecimals > expectedDecimals) {
+        return price / 10n ** BigInt(priceDecimals - expectedDecimals);
+    }
+    return price;
+}
+
+/**
+ * Latest answer of a feed scaled to `expectedDecimals`, rejecting the answers
+ * `CompositeChainlinkOracle.getPriceAndDecimals` reverts on.
+ */
+export async function getPriceAndScale(
+    hre: HardhatRuntimeEnvironment,
+    feed: string,
+    expectedDecimals: number
+): Promise<bigint> {
+    const aggregator = await hre.ethers.getContractAt('AggregatorV3Interface', feed);
+    const [[roundId, price, , , answeredInRound], decimals] = await Promise.all([
+        aggregator.latestRoundData(),
+        aggregator.decimals()
+    ]);
+
+    if (price <= 0n || answeredInRound !== roundId) {
+        throw new Error(`Invalid oracle data from ${feed}`);
+    }
+    return scalePrice(price, Number(decimals), expectedDecimals);
+}
+
+/**
+ * Off-chain `CompositeChainlinkOracle.getDerivedPrice`.
+ */
+export async function getDerivedPrice(
+    hre: HardhatRuntimeEnvironment,
+    base: string,
+    multiplier: string,
+    expectedDecimals = COMPOSITE_DECIMALS
+): Promise<bigint> {
+    const scalingFactor = 10n ** BigInt(expectedDecimals);
+
+    const basePrice = await getPriceAndScale(hre, base, expectedDecimals);
+    const aggregator = await hre.ethers.getContractAt('AggregatorV3Interface', base);
+
+    let quotePrice: bigint;
+    if ((await aggregator.description()) === STETH_USD_DESCRIPTION) {
+        const stETH = await hre.ethers.getContractAt('IStETH', multiplier);
+        quotePrice = await stETH.getPooledEthByShares(10n ** 18n);
+    } else {
+        quotePrice = await getPriceAndScale(hre, multiplier, expectedDecimals);
+    }
+
+    return (basePrice * quotePrice) / scalingFactor;
+}
+
+/**
+ * Off-chain `CompositeChainlinkOracle.getDerivedPriceThreeOracles`.
+ */
+export async function getDerivedPriceThreeOracles(
+    hre: HardhatRuntimeEnvironment,
+    base: string,
+    multiplier: string,
+    secondMultiplier: string,
+    expectedDecimals = COMPOSITE_DECIMALS
+): Promise<bigint> {
+    const scalingFactor = 10n ** BigInt(expectedDecimals * 2);
+
+    const [firstPrice, secondPrice, thirdPrice] = await Promise.all([
+        getPriceAndScale(hre, base, expectedDecimals),
+        getPriceAndScale(hre, multiplier, expectedDecimals),
+        getPriceAndScale(hre, secondMultiplier, expectedDecimals)
+    ]);
+
+    return (firstPrice * secondPrice * thirdPrice) / scalingFactor;
+}
+
+/**
+ * The Chainlink feeds a `CompositeChainlinkOracle` prices from, leaving out the stETH token
+ * multiplier of a STETH/USD base.
+ * @return undefined when `oracle` is not a composite oracle
+ */
+export async function getCompositeComponents(
+    hre: HardhatRuntimeEnvironment,
+    oracle: string
+): Promise<string[] | undefined> {
+    const composite = await hre.ethers.getContractAt('CompositeChainlinkOracle', oracle);
+    let feeds: string[];
+    try {
+        feeds = await Promise.all([
+            composite.base(),
+            composite.multiplier(),
+            composite.secondMultiplier()
+        ]);
+    } catch {
+        return undefined;
+    }
+    const [base, multiplier, secondMultiplier] = feeds;
+
+    const aggregator = await hre.ethers.getContractAt('AggregatorV3Interface', base);
+    const components = [base];
+    if ((await aggregator.description()) !== STETH_USD_DESCRIPTION) components.push(multiplier);
+    if (secondMultiplier !== hre.ethers.ZeroAddress) components.push(secondMultiplier);
+
+    return components;
+}
+
+/**
+ * The answer `CompositeChainlinkOracle.latestRoundData` gives for these feeds, scaled by 1e18.
+ */
+export function getCompositePrice(
+    hre: HardhatRuntimeEnvironment,
+    { base, multiplier, secondMultiplier }: CompositeOracleFeeds
+): Promise<bigint> {
+    if (secondMultiplier === undefined || secondMultiplier === hre.ethers.ZeroAddress) {
+        return getDerivedPrice(hre, base, multiplier);
+    }
+    return getDerivedPriceThreeOracles(hre, base, multiplier, secondMultiplier);
+}
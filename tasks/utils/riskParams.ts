@@ -0,0 +1,362 @@
+import { Interface, formatEther, formatUnits, parseEther } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { MarketRiskParams, RiskParamsConfig } from '../../config/types';
+import { resolveAddress } from './deployments';
+import { formatPercent } from './format';
+
+// Comptroller.collateralFactorMaxMantissa and ClToken.reserveFactorMaxMantissa
+const MAX_COLLATERAL_FACTOR = parseEther('0.9');
+const MAX_RESERVE_FACTOR = parseEther('1');
+
+/**
+ * Risk parameters of a listed market as read from the Comptroller and the ClErc20.
+ */
+export interface MarketRiskState {
+    market: string;
+    symbol: string;
+    underlyingSymbol: string;
+    underlyingDecimals: number;
+    /** admin of the ClErc20, the only account that can set its reserve factor and model */
+    admin: string;
+    collateralFactor: bigint;
+    /** in underlying wei, 0 for no cap */
+    borrowCap: bigint;
+    reserveFactor: bigint;
+    interestRateModel: string;
+    clrSupplySpeed: bigint;
+    clrBorrowSpeed: bigint;
+    mintPaused: boolean;
+    borrowPaused: boolean;
+}
+
+export interface RiskParamChange {
+    /** clToken symbol, or `Comptroller` for the protocol-wide pauses */
+    market: string;
+    parameter: string;
+    current: string;
+    desired: string;
+}
+
+/**
+ * A call of the proposal, with the changes it makes.
+ */
+export interface RiskParamCall {
+    to: string;
+    method: string;
+    data: string;
+    changes: RiskParamChange[];
+}
+
+/**
+ * Reads the risk parameters of `market`, failing when it is not listed on `comptroller`.
+ */
+export async function readMarketRiskState(
+    hre: HardhatRuntimeEnvironment,
+    comptrollerAddress: string,
+    market: string
+): Promise<MarketRiskState> {
+    const { ethers } = hre;
+    const comptroller = await ethers.getContractAt('Comptroller', comptrollerAddress);
+    const clToken = await ethers.getContractAt('ClErc20', market);
+
+    const [isListed, collateralFactor] = await comptroller.getMarketInfo(market);
+    if (!isListed) throw new Error(`Market ${market} is not listed on ${comptrollerAddress}`);
+
+    const underlying = await ethers.getContractAt('IERC20Metadata', await clToken.underlying());
+    const [
+        symbol,
+        underlyingSymbol,
+        underlyingDecimals,
+        admin,
+        borrowCap,
+        reserveFactor,
+        interestRateModel,
+        clrSupplySpeed,
+        clrBorrowSpeed,
+        mintPaused,
+        borrowPaused
+    ] = await Promise.all([
+        clToken.symbol(),
+        underlying.symbol(),
+        underlying.decimals(),
+        clToken.admin(),
+        comptroller.borrowCaps(market),
+        clToken.reserveFactorMantissa(),
+        clToken.interestRateModel(),
+        comptroller.clrSupplySpeeds(market),
+        comptroller.clrBorrowSpeeds(market),
+        comptroller.mintGuardianPaused(market),
+        comptroller.borrowGuardianPaused(market)
+    ]);
+
+    return {
+        market,
+        symbol,
+        underlyingSymbol,
+        underlyingDecimals: Number(underlyingDecimals),
+        admin,
+        collateralFactor,
+        borrowCap,
+        reserveFactor,
+        interestRateModel,
+        clrSupplySpeed,
+        clrBorrowSpeed,
+        mintPaused,
+        borrowPaused
+    };
+}
+
+/**
+ * Diffs `config` against the live state and returns the calls that apply it, leaving out
+ * every parameter that already has its desired value. The calls are ordered to be safe at
+ * every step of the batch:
+ * pauses come first, so the new parameters land on frozen markets, then interest rate models
+ * and reserve factors, borrow caps before collateral factors, so a raised collateral factor
+ * never applies with an old cap, CLR speeds, and unpauses last.
+ */
+export async function planRiskParams(
+    hre: HardhatRuntimeEnvironment,
+    comptrollerAddress: string,
+    config: RiskParamsConfig
+): Promise<RiskParamCall[]> {
+    const { ethers } = hre;
+    const { parseUnits } = ethers;
+    const comptroller = await ethers.getContractAt('Comptroller', comptrollerAddress);
+    const priceOracle = await ethers.getContractAt('PriceOracle', await comptroller.oracle());
+    // Generic interface, the typed one has no overload for a union of method names
+    const comptrollerInterface: Interface = comptroller.interface;
+    const encode = (method: string, values: unknown[]) =>
+        comptrollerInterface.encodeFunctionData(method, values);
+    const clTokenInterface = (await ethers.getContractFactory('ClErc20')).interface;
+
+    const pauses: RiskParamCall[] = [];
+    const unpauses: RiskParamCall[] = [];
+    const interestRateModels: RiskParamCall[] = [];
+    const reserveFactors: RiskParamCall[] = [];
+    const collateralFactors: RiskParamCall[] = [];
+    const borrowCaps: { market: string; cap: bigint; change: RiskParamChange }[] = [];
+    const clrSpeeds: { market: string; supply: bigint; borrow: bigint }[] = [];
+    const clrSpeedChanges: RiskParamChange[] = [];
+
+    const pause = (call: RiskParamCall, paused: boolean) =>
+        (paused ? pauses : unpauses).push(call);
+    const pauseState = (paused: boolean) => (paused ? 'paused' : 'active');
+
+    for (const [key, params] of Object.entries(config.markets) as [string, MarketRiskParams][]) {
+        const market = await resolveAddress(hre, key);
+        const state = await readMarketRiskState(hre, comptrollerAddress, market);
+        const { symbol } = state;
+        const change = (parameter: string, current: string, desired: string) => ({
+            market: symbol,
+            parameter,
+            current,
+            desired
+        });
+
+        for (const [flag, method] of [
+            ['mintPaused', 'setMintPaused'],
+            ['borrowPaused', 'setBorrowPaused']
+        ] as const) {
+            const desired = params[flag];
+            if (desired === undefined || desired === state[flag]) continue;
+            pause(
+                {
+                    to: comptrollerAddress,
+                    method,
+                    data: encode(method, [market, desired]),
+                    changes: [
+                        change(
+                            flag === 'mintPaused' ? 'mint' : 'borrow',
+                            pauseState(state[flag]),
+                            pauseState(desired)
+                        )
+                    ]
+                },
+                desired
+            );
+        }
+
+        if (params.interestRateModel !== undefined) {
+            const model = await resolveAddress(hre, params.interestRateModel);
+            if (model !== state.interestRateModel) {
+                const irm = await ethers.getContractAt('JumpRateModel', model);
+                if (!(await irm.isInterestRateModel().catch(() => false))) {
+                    throw new Error(`${model} is not an interest rate model`);
+                }
+                interestRateModels.push({
+                    to: market,
+                    method: 'setInterestRateModel',
+                    data: clTokenInterface.encodeFunctionData('setInterestRateModel', [model]),
+                    changes: [change('interest rate model', state.interestRateModel, model)]
+                });
+            }
+        }
+
+        if (params.reserveFactor !== undefined) {
+            const desired = parseEther(params.reserveFactor);
+            if (desired > MAX_RESERVE_FACTOR) {
+                throw new Error(`${symbol} reserve factor ${params.reserveFactor} is above 1`);
+            }
+            if (desired !== state.reserveFactor) {
+                reserveFactors.push({
+                    to: market,
+                    method: 'setReserveFactor',
+                    data: clTokenInterface.encodeFunctionData('setReserveFactor', [desired]),
+                    changes: [
+                        change(
+                            'reserve factor',
+                            formatMantissa(state.reserveFactor),
+                            formatMantissa(desired)
+                        )
+                    ]
+                });
+            }
+        }
+
+        if (params.borrowCap !== undefined) {
+            const desired = parseUnits(params.borrowCap, state.underlyingDecimals);
+            if (desired !== state.borrowCap) {
+                borrowCaps.push({
+                    market,
+                    cap: desired,
+                    change: change(
+                        'borrow cap',
+                        formatBorrowCap(state, state.borrowCap),
+                        formatBorrowCap(state, desired)
+                    )
+                });
+            }
+        }
+
+        if (params.collateralFactor !== undefined) {
+            const desired = parseEther(params.collateralFactor);
+            if (desired > MAX_COLLATERAL_FACTOR) {
+                throw new Error(
+                    `${symbol} collateral factor ${params.collateralFactor} is above 0.9`
+                );
+            }
+            if (desired !== state.collateralFactor) {
+                if (desired > 0n && (await priceOracle.getUnderlyingPrice(market)) === 0n) {
+                    throw new Error(`${symbol} has no price, its collateral factor must stay 0`);
+                }
+                collateralFactors.push({
+                    to: comptrollerAddress,
+                    method: 'setCollateralFactor',
+                    data: encode('setCollateralFactor', [market, desired]),
+                    changes: [
+                        change(
+                            'collateral factor',
+                            formatMantissa(state.collateralFactor),
+                            formatMantissa(desired)
+                        )
+                    ]
+                });
+            }
+        }
+
+        // setClrSpeeds sets both speeds, the one not given keeps its live value
+        const supply =
+            params.clrSupplySpeed === undefined
+                ? state.clrSupplySpeed
+                : parseEther(params.clrSupplySpeed);
+        const borrow =
+            params.clrBorrowSpeed === undefined
+                ? state.clrBorrowSpeed
+                : parseEther(params.clrBorrowSpeed);
+        if (supply !== state.clrSupplySpeed || borrow !== state.clrBorrowSpeed) {
+            clrSpeeds.push({ market, supply, borrow });
+            if (supply !== state.clrSupplySpeed) {
+                clrSpeedChanges.push(
+                    change(
+                        'CLR supply speed',
+                        formatClrSpeed(state.clrSupplySpeed),
+                        formatClrSpeed(supply)
+                    )
+                );
+            }
+            if (borrow !== state.clrBorrowSpeed) {
+                clrSpeedChanges.push(
+                    change(
+                        'CLR borrow speed',
+                        formatClrSpeed(state.clrBorrowSpeed),
+                        formatClrSpeed(borrow)
+                    )
+                );
+            }
+        }
+    }
+
+    for (const [flag, method, getter] of [
+        ['transferPaused', 'setTransferPaused', 'transferGuardianPaused'],
+        ['seizePaused', 'setSeizePaused', 'seizeGuardianPaused']
+    ] as const) {
+        const desired = config[flag];
+        if (desired === undefined) continue;
+        const current = await comptroller[getter]();
+        if (desired === current) continue;
+        pause(
+            {
+                to: comptrollerAddress,
+                method,
+                data: encode(method, [desired]),
+                changes: [
+                    {
+                        market: 'Comptroller',
+                        parameter: flag === 'transferPaused' ? 'transfer' : 'seize',
+                        current: pauseState(current),
+                        desired: pauseState(desired)
+                    }
+                ]
+            },
+            desired
+        );
+    }
+
+    const calls = [...pauses, ...interestRateModels, ...reserveFactors];
+    if (borrowCaps.length > 0) {
+        calls.push({
+            to: comptrollerAddress,
+            method: 'setMarketBorrowCaps',
+            data: encode('setMarketBorrowCaps', [
+                borrowCaps.map(c => c.market),
+                borrowCaps.map(c => c.cap)
+            ]),
+            changes: borrowCaps.map(c => c.change)
+        });
+    }
+    calls.push(...collateralFactors);
+    if (clrSpeeds.length > 0) {
+        calls.push({
+            to: comptrollerAddress,
+            method: 'setClrSpeeds',
+            data: encode('setClrSpeeds', [
+                clrSpeeds.map(s => s.market),
+                clrSpeeds.map(s => s.supply),
+                clrSpeeds.map(s => s.borrow)
+            ]),
+            changes: clrSpeedChanges
+        });
+    }
+    calls.push(...unpauses);
+
+    return calls;
+}
+
+/**
+ * Formats a collateral or reserve factor, e.g. `75.00%`.
+ */
+export function formatMantissa(mantissa: bigint): string {
+    return formatPercent(Number(mantissa) / 1e18);
+}
+
+/**
+ * Formats a borrow cap of `market` in underlying units, e.g. `1000.0 wstETH`.
+ */
+export function formatBorrowCap(market: MarketRiskState, cap: bigint): string {
+    if (cap === 0n) return 'unlimited';
+    return `${formatUnits(cap, market.underlyingDecimals)} ${market.underlyingSymbol}`;
+}
+
+export function formatClrSpeed(speed: bigint): string {
+    return `${formatEther(speed)} CLR/block`;
+}
@@ -0,0 +1,57 @@
+/**
+ * A call to execute from a Safe, in the format of the Safe Transaction Builder.
+ * The calldata is pre-encoded, so the builder shows it as raw data.
+ */
+export interface SafeTransaction {
+    to: string;
+    value: string;
+    data: string;
+    contractMethod: null;
+    contractInputsValues: null;
+}
+
+/**
+ * A batch the Safe Transaction Builder app imports from a JSON file.
+ */
+export interface SafeBatch {
+    version: '1.0';
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: string;
+        createdFromOwnerAddress: string;
+    };
+    transactions: SafeTransaction[];
+}
+
+/**
+ * Builds a Safe Transaction Builder batch of value-less calls, executed in order.
+ */
+export function toSafeBatch(
+    chainId: bigint,
+    calls: { to: string; data: string }[],
+    meta: { name: string; description: string; safe?: string }
+): SafeBatch {
+    return {
+        version: '1.0',
+        chainId: chainId.toString(),
+        createdAt: Date.now(),
+        meta: {
+            name: meta.name,
+            description: meta.description,
+            txBuilderVersion: '1.16.5',
+            createdFromSafeAddress: meta.safe ?? '',
+            createdFromOwnerAddress: ''
+        },
+        transactions: calls.map(({ to, data }) => ({
+            to,
+            value: '0',
+            data,
+            contractMethod: null,
+            contractInputsValues: null
+        }))
+    };
+}
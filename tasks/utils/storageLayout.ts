@@ -0,0 +1,147 @@
+import { DeploymentNotFound, Manifest } from '@openzeppelin/upgrades-core';
+import { CompilerOutputContract, HardhatRuntimeEnvironment } from 'hardhat/types';
+
+/**
+ * A state variable of a contract as laid out in storage, `type` being the solidity type name.
+ */
+export interface StorageVariable {
+    slot: string;
+    offset: number;
+    label: string;
+    type: string;
+}
+
+interface SolcStorageLayout {
+    storage: { slot: string; offset: number; label: string; type: string }[];
+    types: Record<string, { label: string }> | null;
+}
+
+/** Contract output of solc with `storageLayout` among the output selection */
+interface CompilerOutputContractWithLayout extends CompilerOutputContract {
+    storageLayout?: SolcStorageLayout;
+}
+
+/**
+ * Reads the storage layout of `contractName` from the last compilation.
+ */
+export async function getStorageLayout(
+    hre: HardhatRuntimeEnvironment,
+    contractName: string
+): Promise<StorageVariable[]> {
+    const artifact = await hre.artifacts.readArtifact(contractName);
+    const buildInfo = await hre.artifacts.getBuildInfo(
+        `${artifact.sourceName}:${artifact.contractName}`
+    );
+    const output: CompilerOutputContractWithLayout | undefined =
+        buildInfo?.output.contracts[artifact.sourceName][artifact.contractName];
+    const layout = output?.storageLayout;
+
+    if (layout === undefined) {
+        throw new Error(`No storage layout in the build of ${contractName}, recompile it`);
+    }
+
+    return layout.storage.map(({ slot, offset, label, type }) => ({
+        slot,
+        offset,
+        label,
+        type: layout.types?.[type]?.label ?? type
+    }));
+}
+
+/**
+ * Reads the storage layout the upgrades plugin recorded for the implementation at `address`
+ * in its network manifest (`.openzeppelin/<network>.json`).
+ * @return The layout, or undefined if the implementation is not in the manifest
+ */
+export async function getDeployedStorageLayout(
+    hre: HardhatRuntimeEnvironment,
+    address: string
+): Promise<StorageVariable[] | undefined> {
+    const manifest = await Manifest.forNetwork(hre.network.provider);
+
+    let layout;
+    try {
+        ({ layout } = await manifest.getDeploymentFromAddress(address));
+    } catch (e) {
+        if (e instanceof DeploymentNotFound) return undefined;
+        throw e;
+    }
+
+    // Layouts of old plugin versions have no positions to compare
+    if (layout.storage.some(v => v.slot === undefined || v.offset === undefined)) return undefined;
+
+    return layout.storage.map(({ slot, offset, label, type }) => ({
+        slot: slot!,
+        offset: offset!,
+        label,
+        type: layout.types[type]?.label ?? type
+    }));
+}
+
+export type StorageChange = 'unchanged' | 'added' | 'removed' | 'changed';
+
+export interface StorageDiffEntry {
+    slot: string;
+    offset: number;
+    change: StorageChange;
+    current?: string;
+    updated?: string;
+}
+
+/**
+ * Compares two layouts position by position. Anything else than `unchanged` and `added`
+ * means the new implementation would read existing state from the wrong place.
+ */
+export function diffStorageLayouts(
+    current: StorageVariable[],
+    updated: StorageVariable[]
+): StorageDiffEntry[] {
+    const position = (v: StorageVariable) => `${v.slot}:${v.offset}`;
+    const describe = (v?: StorageVariable) => v && `${v.label}: ${v.type}`;
+
+    const currentByPosition = new Map(current.map(v => [position(v), v]));
+    const updatedByPosition = new Map(updated.map(v => [position(v), v]));
+    const positions = [...new Set([...currentByPosition.keys(), ...updatedByPosition.keys()])];
+
+    return positions
+        .map(key => {
+            const before = currentByPosition.get(key);
+            const after = updatedByPosition.get(key);
+            const { slot, offset } = (before ?? after)!;
+
+            let change: StorageChange;
+            if (before === undefined) change = 'added';
+            else if (after === undefined) change = 'removed';
+            else if (describe(before) === describe(after)) change = 'unchanged';
+            else change = 'changed';
+
+            return { slot, offset, change, current: describe(before), updated: describe(after) };
+        })
+        .sort((a, b) => {
+            const slotA = BigInt(a.slot);
+            const slotB = BigInt(b.slot);
+            return slotA === slotB ? a.offset - b.offset : slotA < slotB ? -1 : 1;
+        });
+}
+
+const MARKERS: Record<StorageChange, string> = {
+    unchanged: ' ',
+    added: '+',
+    removed: '-',
+    changed: '~'
+};
+
+/**
+ * Formats a layout diff like a unified diff, one variable per line.
+ */
+export function formatStorageDiff(diff: StorageDiffEntry[]): string {
+    return diff
+        .map(({ slot, offset, change, current, updated }) => {
+            const position = `slot ${slot}${offset > 0 ? `+${offset}` : ''}`.padEnd(12);
+            const variable =
+                change === 'changed' ? `${current}  ->  ${updated}` : (current ?? updated);
+
+            return `${MARKERS[change]} ${position}${variable}`;
+        })
+        .join('\n');
+}
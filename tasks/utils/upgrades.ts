@@ -0,0 +1,110 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { getDeployment, saveDeployment } from './deployments';
+import {
+    diffStorageLayouts,
+    formatStorageDiff,
+    getDeployedStorageLayout,
+    getStorageLayout
+} from './storageLayout';
+
+// ProxyAdmin deployed by the upgrades plugin for transparent proxies (OpenZeppelin v5)
+const PROXY_ADMIN_ABI = [
+    'function owner() view returns (address)',
+    'function upgradeAndCall(address proxy, address implementation, bytes data) payable'
+];
+
+/**
+ * Upgrades the proxy recorded under `key` to `contractName`.
+ * The storage layout of the new implementation is printed next to the current one and
+ * checked by `validateUpgrade` first. With `propose` the implementation is only deployed
+ * and the call the proxy admin owner has to make is printed instead of upgrading.
+ * @return The address of the new implementation
+ */
+export async function upgradeProxy(
+    hre: HardhatRuntimeEnvironment,
+    key: string,
+    contractName: string,
+    propose: boolean
+): Promise<string> {
+    const { ethers, upgrades } = hre;
+
+    // Layouts are read from the build, make sure it matches the sources
+    await hre.run('compile', { quiet: true });
+
+    const record = await getDeployment(hre, key);
+    if (record?.implementation === undefined) {
+        throw new Error(`No "${key}" proxy recorded for network ${hre.network.name}`);
+    }
+    const proxy = record.address;
+
+    // Layouts are recorded from deployProxy on, older proxies fall back to the upgrades plugin's
+    const current =
+        record.storageLayout ?? (await getDeployedStorageLayout(hre, record.implementation));
+    if (current === undefined) {
+        throw new Error(
+            `No storage layout recorded for the ${key} implementation ${record.implementation}, ` +
+                'import it with upgrades.forceImport and the contract it was deployed from'
+        );
+    }
+    const updated = await getStorageLayout(hre, contractName);
+    const diff = diffStorageLayouts(current, updated);
+
+    console.log(`>>>>> Storage layout of ${record.contractName} -> ${contractName}:`);
+    console.log(formatStorageDiff(diff));
+
+    const breaking = diff.filter(e => e.change === 'changed' || e.change === 'removed');
+    if (breaking.length > 0) {
+        console.log(`>>>>> ${breaking.length} existing variable(s) moved or changed.`);
+    }
+
+    const factory = await ethers.getContractFactory(contractName);
+    await upgrades.validateUpgrade(proxy, factory, { kind: 'transparent' });
+    console.log('>>>>> Upgrade validated.');
+
+    const proxyAdmin = await ethers.getContractAt(
+        PROXY_ADMIN_ABI,
+        await upgrades.erc1967.getAdminAddress(proxy)
+    );
+    const [signer] = await ethers.getSigners();
+
+    if (propose) {
+        const implementation = (await upgrades.prepareUpgrade(proxy, factory, {
+            kind: 'transparent'
+        })) as string;
+
+        console.log('>>>>> New implementation:', implementation);
+        console.log('>>>>> To upgrade, the proxy admin owner has to send:');
+        console.log(`  owner: ${await proxyAdmin.owner()}`);
+        console.log(`  to:    ${proxyAdmin.target}`);
+        console.log(
+            `  data:  ${proxyAdmin.interface.encodeFunctionData('upgradeAndCall', [
+                proxy,
+                implementation,
+                '0x'
+            ])}`
+        );
+
+        return implementation;
+    }
+
+    if ((await proxyAdmin.owner()) !== signer.address) {
+        throw new Error(
+            `${signer.address} does not own the proxy admin of ${key}, use --propose instead`
+        );
+    }
+
+    await upgrades.upgradeProxy(proxy, factory, { kind: 'transparent' });
+    const implementation = await upgrades.erc1967.getImplementationAddress(proxy);
+
+    await saveDeployment(hre, key, {
+        ...record,
+        contractName,
+        implementation,
+        storageLayout: updated,
+        // the new implementation still has to be verified
+        verified: undefined
+    });
+
+    console.log(`>>>>> ${key} upgraded to:`, implementation);
+    return implementation;
+}
@@ -0,0 +1,58 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { getDeployment, saveDeployment } from './deployments';
+
+/**
+ * Verifies the contract recorded under `key` on the block explorer with its recorded
+ * constructor arguments and marks it as verified in the manifest.
+ * Failures are logged instead of thrown, the deployment itself is fine at this point.
+ * @return Whether the contract is verified
+ */
+export async function verifyDeployment(
+    hre: HardhatRuntimeEnvironment,
+    key: string
+): Promise<boolean> {
+    const record = await getDeployment(hre, key);
+    if (record === undefined) {
+        throw new Error(`No "${key}" deployment recorded for network ${hre.network.name}`);
+    }
+
+    if (record.verified) {
+        console.log(`${key} already verified, skipping.`);
+        return true;
+    }
+
+    try {
+        await hre.run('verify:verify', {
+            address: record.address,
+            // The upgrades plugin verifies the implementation of proxies, whose recorded args
+            // are initializer arguments rather than constructor ones
+            constructorArguments: record.implementation === undefined ? record.args : []
+        });
+    } catch (e) {
+        const message = (e as Error).message;
+        if (!/already verified/i.test(message)) {
+            console.log(`>>>>> Verification of ${key} failed: ${message.split('\n')[0]}`);
+            return false;
+        }
+    }
+
+    await saveDeployment(hre, key, { ...record, verified: true });
+    console.log(`>>>>> ${key} verified.`);
+    return true;
+}
+
+/**
+ * Verifies the contracts recorded under `keys` one after the other.
+ * @return The keys that could not be verified
+ */
+export async function verifyDeployments(
+    hre: HardhatRuntimeEnvironment,
+    keys: string[]
+): Promise<string[]> {
+    const failed: string[] = [];
+    for (const key of keys) {
+        if (!(await verifyDeployment(hre, key))) failed.push(key);
+    }
+
+    return failed;
+}
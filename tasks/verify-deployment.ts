@@ -0,0 +1,33 @@
+import { task, types } from 'hardhat/config';
+import { readManifest } from './utils/deployments';
+import { verifyDeployments } from './utils/verify';
+
+/**
+ * Verifies every contract of the network's deployment manifest that is not verified yet.
+ * Explorers often need a moment to index freshly deployed contracts, so failures are
+ * retried after a delay.
+ */
+task('verify-deployment', 'Verify every contract recorded in the deployment manifest')
+    .addOptionalParam('retries', 'Number of retries of failed verifications', 3, types.int)
+    .addOptionalParam('delay', 'Seconds to wait before retrying', 30, types.int)
+    .setAction(async ({ retries, delay }, hre) => {
+        const manifest = await readManifest(hre);
+        let pending = Object.keys(manifest.contracts).filter(
+            key => !manifest.contracts[key].verified
+        );
+
+        for (let attempt = 0; attempt <= retries && pending.length > 0; attempt++) {
+            if (attempt > 0) {
+                console.log(`>>>>> Retrying ${pending.length} contract(s) in ${delay}s.`);
+                await new Promise(resolve => setTimeout(resolve, delay * 1000));
+            }
+
+            pending = await verifyDeployments(hre, pending);
+        }
+
+        if (pending.length > 0) {
+            throw new Error(`Could not verify ${pending.join(', ')}`);
+        }
+
+        console.log('>>>>> All contracts verified.');
+    });
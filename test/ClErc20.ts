@@ -1,15 +1,16 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
-import { ethers, upgrades } from "hardhat";
+import { ethers } from "hardhat";
 import {
     ClErc20,
     ERC20Mock,
     PriceOracle,
     JumpRateModel,
     WstETHMock,
-    CompositeChainlinkOracle,
     RETHMock
 } from "../typechain-types";
+import { deployProtocolFixture } from "./helpers/fixtures";
 
 const { parseEther, parseUnits } = ethers;
 
@@ -23,126 +24,30 @@ describe("ClToken", function () {
     let priceOracle: PriceOracle;
     let jumpRateModel: JumpRateModel;
     let wstETH: WstETHMock, rETH: RETHMock;
-    let wstETHCompositeOracle: CompositeChainlinkOracle;
-    let rETHCompositeOracle: CompositeChainlinkOracle;
 
-    const baseRatePerYear = parseEther("0.1");
-    const multiplierPerYear = parseEther("0.45");
-    const jumpMultiplierPerYear = parseEther("5");
-    const kink = parseEther("0.9");
-
-    // Base oracle addresses
-    const ETH_USD_FEED = "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419";
-    const STETH_USD_FEED = "0xCfE54B5cD566aB89272946F602D76Ea879CAb4a8";
-
-    // Multiplier(Quote) oracle addresses
-    const RETH_ETH_FEED = "0x536218f9E9Eb48863970252233c8F271f554C2d0";
-    const STETHAddr = "0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84";
-
-    const collateralFactor = parseEther("0.8");
     const closeFactor = parseEther("0.6");
 
     beforeEach(async () => {
         // Contracts are deployed using the first signer/account by default
         [deployer, account1] = await ethers.getSigners();
-        
-        const stETHMock = await ethers.deployContract("StETHMock");
-        wstETH = await ethers.deployContract("WstETHMock", [
-            await stETHMock.getAddress()
-        ]);
-        rETH = await ethers.deployContract("RETHMock");
-
-        const Comptroller = await ethers.getContractFactory("Comptroller");
-        comptroller = await upgrades.deployProxy(Comptroller);
-        comptroller.waitForDeployment();
-
-        const Leverage = await ethers.getContractFactory("Leverage");
-        leverage = await upgrades.deployProxy(Leverage, [
-            await comptroller.getAddress()
-        ]);
-        leverage.waitForDeployment();
-
-        // set price oracle in Comptroller
-        priceOracle = await ethers.deployContract("PriceOracle");
-        
-        wstETHCompositeOracle = await ethers.deployContract("CompositeChainlinkOracle", [
-            STETH_USD_FEED,
-            STETHAddr,
-            ethers.ZeroAddress
-        ]);
-
-        rETHCompositeOracle = await ethers.deployContract("CompositeChainlinkOracle", [
-            ETH_USD_FEED,
-            RETH_ETH_FEED,
-            ethers.ZeroAddress
-        ]);
-
-        const blocksPerYear = 2102400n;
-        jumpRateModel = await ethers.deployContract("JumpRateModel", [
-            blocksPerYear,
-            baseRatePerYear,
-            multiplierPerYear,
-            jumpMultiplierPerYear,
-            kink,
-            deployer.address
-        ]);
-        // Exchange rate is 1:1 for tests
-        const initialExchangeRate = parseUnits("1", 18);
-
-        // ClErc20 contract instances
-        clWstETH = await ethers.deployContract("ClErc20", [
-            await wstETH.getAddress(),
-            await comptroller.getAddress(),
-            await jumpRateModel.getAddress(),
-            initialExchangeRate,
-            "Cluster WstETH Token",
-            "clWstETH",
-            8,
-            deployer.address
-        ]);
-
-        clRETH = await ethers.deployContract("ClErc20", [
-            await rETH.getAddress(),
-            await comptroller.getAddress(),
-            await jumpRateModel.getAddress(),
-            initialExchangeRate,
-            "Cluster RETH Token",
-            "clRETH",
-            8,
-            deployer.address
-        ]);
-
-        clWstETHAddr = await clWstETH.getAddress();
-        clRETHAddr = await clRETH.getAddress();
+
+        // Markets are listed with a collateral factor of 0.8, wstETH at $4000 and rETH at $3500
+        ({
+            comptroller,
+            leverage,
+            priceOracle,
+            jumpRateModel,
+            wstETHMock: wstETH,
+            rETHMock: rETH,
+            clWstETH,
+            clRETH,
+            clWstETHAddr,
+            clRETHAddr
+        } = await loadFixture(deployProtocolFixture));
 
         // Mints underlying asset to Admin
         await wstETH.mint(deployer.address, parseEther("1000"));
         await rETH.mint(parseEther("1000"), deployer.address);
-
-        // set price oracle
-        await comptroller.connect(deployer).setPriceOracle(await priceOracle.getAddress());
-        // set underlying price feeds
-        await priceOracle.setFeed(
-            await wstETH.symbol(),
-            await wstETHCompositeOracle.getAddress()
-        );
-        await priceOracle.setFeed(
-            await rETH.symbol(),
-            await rETHCompositeOracle.getAddress()
-        );
-        // list markets
-        await comptroller.connect(deployer).supportMarket(clWstETHAddr);
-        await comptroller.connect(deployer).supportMarket(clRETHAddr);
-        // set collateral factor
-        await comptroller.connect(deployer).setCollateralFactor(
-            clWstETHAddr,
-            collateralFactor
-        );
-        // set collateral factor
-        await comptroller.connect(deployer).setCollateralFactor(
-            clRETHAddr,
-            collateralFactor
-        );
     });
 
     context("Deployment", () => {
@@ -0,0 +1,150 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, mine, setBalance } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ClusterClient } from "../sdk";
+import { ClErc20, ClusterToken, RETHMock, WstETHMock } from "../typechain-types";
+import { deployProtocolFixture } from "./helpers/fixtures";
+
+const { parseEther, parseUnits } = ethers;
+
+/**
+ * The off-chain pending CLR against what `claimClr` actually transfers.
+ */
+describe("Pending CLR", function () {
+    let deployer: HardhatEthersSigner, alice: HardhatEthersSigner, bob: HardhatEthersSigner;
+    let comptroller: any;
+    let clWstETH: ClErc20, clRETH: ClErc20;
+    let clWstETHAddr: string, clRETHAddr: string;
+    let wstETHMock: WstETHMock, rETHMock: RETHMock;
+    let clusterToken: ClusterToken;
+    let client: ClusterClient;
+
+    async function supplyAndBorrow(
+        user: HardhatEthersSigner,
+        wstETHAmount: bigint,
+        borrowAmount: bigint
+    ) {
+        const userClient = client.connect(user);
+
+        await wstETHMock.mint(user.address, wstETHAmount);
+        await userClient.mint(clWstETHAddr, wstETHAmount);
+        await userClient.enterMarkets([clWstETHAddr, clRETHAddr]);
+        await userClient.borrow(clRETHAddr, borrowAmount);
+    }
+
+    /**
+     * Claims through `client` and checks the CLR received is the pending amount of the claim
+     * block, to the wei.
+     */
+    async function expectClaimMatches(holder: string, clTokens: string[]) {
+        const pending = await client.getPendingClr(holder, clTokens);
+        const balance = await clusterToken.balanceOf(holder);
+
+        await client.connect(bob).claimClr(holder, clTokens);
+
+        expect(pending.total).to.be.gt(0n);
+        expect((await clusterToken.balanceOf(holder)) - balance).to.equal(pending.total);
+        expect(await comptroller.clrAccrued(holder)).to.equal(0n);
+        return pending;
+    }
+
+    beforeEach(async () => {
+        [deployer, alice, bob] = await ethers.getSigners();
+
+        // The Comptroller holds 1M CLR
+        ({
+            comptroller,
+            clWstETH,
+            clRETH,
+            clWstETHAddr,
+            clRETHAddr,
+            wstETHMock,
+            rETHMock,
+            clusterToken
+        } = await loadFixture(deployProtocolFixture));
+
+        client = await ClusterClient.load(
+            { comptroller: await comptroller.getAddress() },
+            ethers.provider
+        );
+
+        // rETH liquidity to borrow from
+        await rETHMock.mint(parseEther("100"), deployer.address);
+        await client.connect(deployer).mint(clRETHAddr, parseEther("100"));
+
+        await comptroller.setClrSpeeds(
+            [clWstETHAddr, clRETHAddr],
+            [parseEther("1"), parseEther("0.3")],
+            [parseEther("0.5"), parseEther("2")]
+        );
+    });
+
+    it("Should match claimClr for a supplier and borrower of every market", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), parseEther("3"));
+        await supplyAndBorrow(bob, parseEther("7"), parseEther("1"));
+        await mine(100);
+
+        const pending = await expectClaimMatches(alice.address, [clWstETHAddr, clRETHAddr]);
+
+        const [wstETH, rETH] = pending.markets;
+        expect(wstETH.supply).to.be.gt(0n);
+        expect(wstETH.borrow).to.equal(0n);
+        expect(rETH.supply).to.equal(0n);
+        expect(rETH.borrow).to.be.gt(0n);
+    });
+
+    it("Should match claimClr after interest and CLR accrued by other actions", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), parseEther("3"));
+        await mine(50);
+        // accrues interest and distributes to alice into clrAccrued
+        await client.connect(alice).borrow(clRETHAddr, parseEther("1"));
+        await clWstETH.connect(alice).transfer(bob.address, parseUnits("2", 8));
+        await mine(50);
+
+        const pending = await expectClaimMatches(alice.address, [clWstETHAddr, clRETHAddr]);
+        expect(pending.accrued).to.be.gt(0n);
+    });
+
+    it("Should only claim the chosen markets", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), parseEther("3"));
+        await mine(20);
+
+        await expectClaimMatches(alice.address, [clRETHAddr]);
+        const remaining = await client.getPendingClr(alice.address);
+        expect(remaining.markets.find(m => m.clToken === clWstETHAddr)!.supply).to.be.gt(0n);
+        expect(remaining.markets.find(m => m.clToken === clRETHAddr)!.borrow).to.be.gt(0n);
+
+        await expectClaimMatches(alice.address, [clWstETHAddr]);
+    });
+
+    it("Should leave the pending CLR accrued when the comptroller runs out", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), parseEther("3"));
+        await mine(20);
+
+        const comptrollerSigner = await ethers.getImpersonatedSigner(
+            await comptroller.getAddress()
+        );
+        await setBalance(comptrollerSigner.address, parseEther("1"));
+        await clusterToken
+            .connect(comptrollerSigner)
+            .transfer(deployer.address, parseEther("1000000"));
+
+        const pending = await client.getPendingClr(alice.address);
+        await client.connect(bob).claimClr(alice.address);
+
+        expect(await clusterToken.balanceOf(alice.address)).to.equal(0n);
+        expect(await comptroller.clrAccrued(alice.address)).to.equal(pending.total);
+    });
+
+    it("Should compute the pending CLR at a later block", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), parseEther("3"));
+
+        const block = BigInt(await ethers.provider.getBlockNumber());
+        const later = await client.getPendingClr(alice.address, undefined, block + 11n);
+        await mine(10);
+
+        const pending = await expectClaimMatches(alice.address, [clWstETHAddr, clRETHAddr]);
+        expect(pending.total).to.equal(later.total);
+    });
+});
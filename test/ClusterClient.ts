@@ -0,0 +1,191 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ClusterClient } from "../sdk";
+import { ChainlinkOracleMock, ClErc20, RETHMock, WstETHMock } from "../typechain-types";
+import { deployProtocolFixture } from "./helpers/fixtures";
+
+const { parseEther, parseUnits } = ethers;
+
+describe("ClusterClient", function () {
+    let deployer: HardhatEthersSigner, user: HardhatEthersSigner, liquidator: HardhatEthersSigner;
+    let comptroller: any;
+    let clWstETH: ClErc20, clRETH: ClErc20;
+    let clWstETHAddr: string, clRETHAddr: string;
+    let wstETHMock: WstETHMock, rETHMock: RETHMock;
+    let wstETHFeed: ChainlinkOracleMock;
+    let client: ClusterClient;
+
+    beforeEach(async () => {
+        [deployer, user, liquidator] = await ethers.getSigners();
+
+        ({
+            comptroller,
+            clWstETH,
+            clRETH,
+            clWstETHAddr,
+            clRETHAddr,
+            wstETHMock,
+            rETHMock,
+            wstETHFeed
+        } = await loadFixture(deployProtocolFixture));
+
+        await wstETHMock.mint(user.address, parseEther("10"));
+        await rETHMock.mint(parseEther("100"), liquidator.address);
+
+        client = await ClusterClient.load(
+            { comptroller: await comptroller.getAddress() },
+            ethers.provider
+        );
+    });
+
+    context("Reads", () => {
+        it("Should load the price oracle from the comptroller", async () => {
+            expect(client.addresses.priceOracle).to.equal(await comptroller.oracle());
+        });
+
+        it("Should list the markets with their info", async () => {
+            expect(await client.getAllMarkets()).to.deep.equal([clWstETHAddr, clRETHAddr]);
+
+            const [wstETHMarket, rETHMarket] = await client.getMarkets();
+
+            expect(wstETHMarket.address).to.equal(clWstETHAddr);
+            expect(wstETHMarket.symbol).to.equal("clWstETH");
+            expect(wstETHMarket.decimals).to.equal(8);
+            expect(wstETHMarket.underlying).to.equal(await wstETHMock.getAddress());
+            expect(wstETHMarket.underlyingSymbol).to.equal("wstETH");
+            expect(wstETHMarket.underlyingDecimals).to.equal(18);
+            expect(wstETHMarket.isListed).to.equal(true);
+            expect(wstETHMarket.collateralFactor).to.equal(parseEther("0.8"));
+            expect(wstETHMarket.exchangeRate).to.equal(parseEther("1"));
+            expect(wstETHMarket.underlyingPrice).to.equal(parseEther("4000"));
+
+            expect(rETHMarket.symbol).to.equal("clRETH");
+            expect(rETHMarket.underlyingPrice).to.equal(parseEther("3500"));
+        });
+
+        it("Should return the prices of every market", async () => {
+            expect(await client.getPrices()).to.deep.equal({
+                [clWstETHAddr]: parseEther("4000"),
+                [clRETHAddr]: parseEther("3500")
+            });
+        });
+    });
+
+    context("Actions", () => {
+        it("Should mint, borrow, repay and redeem", async () => {
+            await client.connect(liquidator).mint(clRETHAddr, parseEther("50"));
+
+            const userClient = client.connect(user);
+            await userClient.mint(clWstETHAddr, parseEther("10"));
+            await userClient.enterMarkets([clWstETHAddr]);
+            await userClient.borrow(clRETHAddr, parseEther("5"));
+
+            const positions = await client.getAccountPositions(user.address);
+            expect(positions).to.have.length(2);
+            expect(positions[0]).to.deep.include({
+                market: clWstETHAddr,
+                supplied: parseEther("10"),
+                borrowed: 0n,
+                isCollateral: true
+            });
+            expect(positions[1]).to.deep.include({
+                market: clRETHAddr,
+                balance: 0n,
+                borrowed: parseEther("5"),
+                // borrowing enters the market
+                isCollateral: true
+            });
+
+            // 10 wstETH * $4000 * 0.8 - 5 rETH * $3500
+            const { liquidity, shortfall } = await client.getAccountLiquidity(user.address);
+            expect(liquidity).to.equal(parseEther("14500"));
+            expect(shortfall).to.equal(0n);
+
+            // some more rETH to pay the accrued interest
+            await rETHMock.mint(parseEther("1"), user.address);
+            await userClient.repayBorrow(clRETHAddr, ethers.MaxUint256);
+            expect(await clRETH.borrowBalanceStored(user.address)).to.equal(0n);
+
+            await userClient.redeem(clWstETHAddr, await clWstETH.balanceOf(user.address));
+            expect(await wstETHMock.balanceOf(user.address)).to.equal(parseEther("10"));
+        });
+
+        it("Should report the health of an account", async () => {
+            await client.connect(liquidator).mint(clRETHAddr, parseEther("50"));
+
+            const userClient = client.connect(user);
+            await userClient.mint(clWstETHAddr, parseEther("10"));
+            await userClient.enterMarkets([clWstETHAddr]);
+            await userClient.borrow(clRETHAddr, parseEther("4"));
+
+            const health = await client.getAccountHealth(user.address);
+
+            expect(health.totalSupplied).to.equal(parseEther("40000"));
+            expect(health.totalCollateral).to.equal(parseEther("32000"));
+            expect(health.totalBorrowed).to.equal(parseEther("14000"));
+            expect(health.liquidity).to.equal(parseEther("18000"));
+            expect(health.healthFactor).to.be.closeTo(32000 / 14000, 1e-9);
+            // 18000 of headroom over 32000 of collateral and 14000 of borrows
+            expect(health.collateralPriceDrop).to.be.closeTo(18000 / 32000, 1e-9);
+            expect(health.priceMoves).to.deep.equal([
+                { market: clWstETHAddr, change: -18000 / 32000 },
+                { market: clRETHAddr, change: 18000 / 14000 }
+            ]);
+        });
+
+        it("Should report the price moves of a looped position on its net exposure", async () => {
+            await wstETHMock.mint(deployer.address, parseEther("10"));
+            await client.connect(deployer).mint(clWstETHAddr, parseEther("10"));
+            await client.connect(liquidator).mint(clRETHAddr, parseEther("50"));
+
+            // wstETH supplied and borrowed back, as left by Leverage.loop
+            const userClient = client.connect(user);
+            await userClient.mint(clWstETHAddr, parseEther("10"));
+            await userClient.enterMarkets([clWstETHAddr]);
+            await userClient.borrow(clWstETHAddr, parseEther("4"));
+            await userClient.borrow(clRETHAddr, parseEther("2"));
+
+            const health = await client.getAccountHealth(user.address);
+
+            // 32000 of collateral against 16000 of wstETH and 7000 of rETH borrows
+            expect(health.liquidity).to.equal(parseEther("9000"));
+            expect(health.priceMoves).to.deep.equal([
+                { market: clWstETHAddr, change: -9000 / 16000 },
+                { market: clRETHAddr, change: 9000 / 7000 }
+            ]);
+
+            // a loop alone scales collateral and borrows together, its price cannot liquidate it
+            await rETHMock.mint(parseEther("1"), user.address);
+            await userClient.repayBorrow(clRETHAddr, ethers.MaxUint256);
+            const looped = await client.getAccountHealth(user.address);
+            expect(looped.priceMoves).to.deep.equal([{ market: clWstETHAddr, change: null }]);
+        });
+
+        it("Should liquidate an account in shortfall", async () => {
+            await client.connect(liquidator).mint(clRETHAddr, parseEther("50"));
+
+            const userClient = client.connect(user);
+            await userClient.mint(clWstETHAddr, parseEther("10"));
+            await userClient.enterMarkets([clWstETHAddr]);
+            await userClient.borrow(clRETHAddr, parseEther("8"));
+
+            await wstETHFeed.set(42, parseUnits("3000", 8), 0, 0, 42);
+            expect((await client.getAccountLiquidity(user.address)).shortfall).to.be.gt(0n);
+
+            await client
+                .connect(liquidator)
+                .liquidateBorrow(clRETHAddr, user.address, parseEther("2"), clWstETHAddr);
+
+            expect(await clRETH.borrowBalanceStored(user.address)).to.be.lt(parseEther("8"));
+            expect(await clWstETH.balanceOf(liquidator.address)).to.be.gt(0n);
+        });
+
+        it("Should not send transactions without a signer", async () => {
+            await expect(client.mint(clWstETHAddr, parseEther("1"))).to.be.rejectedWith(
+                "ClusterClient needs a signer to send transactions"
+            );
+        });
+    });
+});
@@ -1,7 +1,9 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { ClusterToken } from "../typechain-types";
+import { deployContractsFixture } from "./helpers/fixtures";
 
 describe("ClusterToken", function () {
   let clusterToken: ClusterToken;
@@ -13,7 +15,7 @@ describe("ClusterToken", function () {
   beforeEach(async () => {
     [deployer, minter, user] = await ethers.getSigners();
 
-    clusterToken = await ethers.deployContract("ClusterToken", [deployer.address]);
+    ({ clusterToken } = await loadFixture(deployContractsFixture));
   });
   
   context("Deployment", () => {
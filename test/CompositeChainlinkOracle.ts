@@ -1,7 +1,9 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
+import { getCompositePrice } from "../tasks/utils/oracles";
 import { CompositeChainlinkOracle } from "../typechain-types";
+import { isForking } from "./helpers/fixtures";
 
 describe("CompositeChainlinkOracle", () => {
     let wstETHCompositeOracle: CompositeChainlinkOracle;
@@ -15,7 +17,16 @@ describe("CompositeChainlinkOracle", () => {
     const RETH_ETH_FEED = "0x536218f9E9Eb48863970252233c8F271f554C2d0";
     const STETHAddr = "0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84";
 
-    beforeEach(async () => {
+    // Oracles of the live mainnet feeds, the contexts using them run with FORK=true only
+    function deployMainnetOracles() {
+        before(function () {
+            if (!isForking()) this.skip();
+        });
+
+        beforeEach(deployOracles);
+    }
+
+    async function deployOracles() {
         wstETHCompositeOracle = await ethers.deployContract("CompositeChainlinkOracle", [
             STETH_USD_FEED,
             STETHAddr,
@@ -27,9 +38,11 @@ describe("CompositeChainlinkOracle", () => {
             RETH_ETH_FEED,
             ethers.ZeroAddress
         ]);
-    });
+    }
 
     context("Deployment", () => {
+        deployMainnetOracles();
+
         it("Should return correct base oracle address", async () => {
             expect(await rETHCompositeOracle.base()).to.equal(ETH_USD_FEED);
             expect(await wstETHCompositeOracle.base()).to.equal(STETH_USD_FEED);
@@ -52,6 +65,8 @@ describe("CompositeChainlinkOracle", () => {
     });
 
     context("Get derived price", () => {
+        deployMainnetOracles();
+
         context("wstETH price", () => {
             it("get stETH/USD price", async () => {
                 const [basePrice, decimals] = await wstETHCompositeOracle.getPriceAndDecimals(STETH_USD_FEED);
@@ -69,6 +84,13 @@ describe("CompositeChainlinkOracle", () => {
                 const roundData = await wstETHCompositeOracle.latestRoundData();
                 expect(derivedPrice).to.equal(roundData[1]);
             });
+
+            it("Should match the off-chain price", async () => {
+                const [, answer] = await wstETHCompositeOracle.latestRoundData();
+                expect(
+                    await getCompositePrice(hre, { base: STETH_USD_FEED, multiplier: STETHAddr })
+                ).to.equal(answer);
+            });
         });
 
         context("rETH price", () => {
@@ -89,6 +111,72 @@ describe("CompositeChainlinkOracle", () => {
                 const roundData = await rETHCompositeOracle.latestRoundData();
                 expect(derivedPrice).to.equal(roundData[1]);
             });
+
+            it("Should match the off-chain price", async () => {
+                const [, answer] = await rETHCompositeOracle.latestRoundData();
+                expect(
+                    await getCompositePrice(hre, { base: ETH_USD_FEED, multiplier: RETH_ETH_FEED })
+                ).to.equal(answer);
+            });
+        });
+    });
+
+    context("Off-chain price", () => {
+        async function deployFeed(answer: string, decimals: number) {
+            const feed = await ethers.deployContract("ChainlinkOracleMock", [
+                ethers.parseUnits(answer, decimals),
+                decimals
+            ]);
+            return feed.getAddress();
+        }
+
+        it("Should match two oracles of any decimals", async () => {
+            for (const [baseDecimals, multiplierDecimals] of [[8, 18], [6, 8], [18, 20], [20, 6]]) {
+                const base = await deployFeed("3123.456", baseDecimals);
+                const multiplier = await deployFeed("1.098765", multiplierDecimals);
+                const oracle = await ethers.deployContract("CompositeChainlinkOracle", [
+                    base,
+                    multiplier,
+                    ethers.ZeroAddress
+                ]);
+
+                const [, answer] = await oracle.latestRoundData();
+                expect(await getCompositePrice(hre, { base, multiplier })).to.equal(answer);
+            }
+        });
+
+        it("Should match three oracles", async () => {
+            const base = await deployFeed("3123.456789", 8);
+            const multiplier = await deployFeed("0.9991", 18);
+            const secondMultiplier = await deployFeed("1.173411", 6);
+            const oracle = await ethers.deployContract("CompositeChainlinkOracle", [
+                base,
+                multiplier,
+                secondMultiplier
+            ]);
+
+            const [, answer] = await oracle.latestRoundData();
+            expect(
+                await getCompositePrice(hre, { base, multiplier, secondMultiplier })
+            ).to.equal(answer);
+        });
+
+        it("Should reject the answers the oracle reverts on", async () => {
+            const base = await deployFeed("3000", 8);
+            const multiplier = await ethers.deployContract("ChainlinkOracleMock", [0, 18]);
+            const oracle = await ethers.deployContract("CompositeChainlinkOracle", [
+                base,
+                await multiplier.getAddress(),
+                ethers.ZeroAddress
+            ]);
+
+            await expect(oracle.latestRoundData()).to.be.revertedWithCustomError(
+                oracle,
+                "InvalidOracleData"
+            );
+            await expect(
+                getCompositePrice(hre, { base, multiplier: await multiplier.getAddress() })
+            ).to.be.rejectedWith("Invalid oracle data");
         });
     });
 });
@@ -1,16 +1,18 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
-import { ethers, upgrades } from "hardhat";
+import { ethers } from "hardhat";
 import {
+    ChainlinkOracleMock,
     ClErc20,
     ClusterToken,
-    CompositeChainlinkOracle,
     PriceOracle,
     RETHMock,
     WstETHMock
 } from "../typechain-types";
+import { deployContractsFixture } from "./helpers/fixtures";
 
-const { parseEther, parseUnits } = ethers;
+const { parseEther } = ethers;
 
 describe("Comptroller", function () {
     let deployer: HardhatEthersSigner, user: HardhatEthersSigner;
@@ -20,102 +22,28 @@ describe("Comptroller", function () {
     let clWstETHAddr: string, clRETHAddr: string;
     let wstETHMock: WstETHMock, rETHMock: RETHMock;
     let priceOracle: PriceOracle;
-    let wstETHCompositeOracle: CompositeChainlinkOracle;
-    let rETHCompositeOracle: CompositeChainlinkOracle;
+    let wstETHFeed: ChainlinkOracleMock;
     let clusterToken: ClusterToken;
 
-    const baseRatePerYear = parseEther("0.1");
-    const multiplierPerYear = parseEther("0.45");
-    const jumpMultiplierPerYear = parseEther("5");
-    const kink = parseEther("0.9");
-
-    const initialExchangeRate = parseEther("1");
-
-    // Base oracle addresses
-    const ETH_USD_FEED = "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419";
-    const STETH_USD_FEED = "0xCfE54B5cD566aB89272946F602D76Ea879CAb4a8";
-
-    // Multiplier(Quote) oracle addresses
-    const RETH_ETH_FEED = "0x536218f9E9Eb48863970252233c8F271f554C2d0";
-    const STETHAddr = "0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84";
-
     beforeEach(async () => {
         // Contracts are deployed using the first signer/account by default
         [deployer, user] = await ethers.getSigners();
 
-        // Comptroller
-        const Comptroller = await ethers.getContractFactory("Comptroller");
-        comptroller = await upgrades.deployProxy(Comptroller);
-        comptroller.waitForDeployment();
-
-        // Leverage
-        const Leverage = await ethers.getContractFactory("Leverage");
-        leverage = await upgrades.deployProxy(Leverage, [
-            await comptroller.getAddress()
-        ]);
-        leverage.waitForDeployment();
-
-        const stETHMock = await ethers.deployContract("StETHMock");
-        wstETHMock = await ethers.deployContract("WstETHMock", [
-            await stETHMock.getAddress()
-        ]);
-
-        rETHMock = await ethers.deployContract("RETHMock");
-
-        const blocksPerYear = 2102400n;
-        const jumpRateModel = await ethers.deployContract("JumpRateModel", [
-            blocksPerYear,
-            baseRatePerYear,
-            multiplierPerYear,
-            jumpMultiplierPerYear,
-            kink,
-            deployer.address
-        ]);
-        
-        // ClErc20 contract instances
-        clWstETH = await ethers.deployContract("ClErc20", [
-            await wstETHMock.getAddress(),
-            await comptroller.getAddress(),
-            await jumpRateModel.getAddress(),
-            initialExchangeRate,
-            "Cluster WstETH Token",
-            "clWstETH",
-            8,
-            deployer.address
-        ]);
-
-        clRETH = await ethers.deployContract("ClErc20", [
-            await rETHMock.getAddress(),
-            await comptroller.getAddress(),
-            await jumpRateModel.getAddress(),
-            initialExchangeRate,
-            "Cluster RETH Token",
-            "clRETH",
-            8,
-            deployer.address
-        ]);
-
-        priceOracle = await ethers.deployContract("PriceOracle");
-
-        wstETHCompositeOracle = await ethers.deployContract("CompositeChainlinkOracle", [
-            STETH_USD_FEED,
-            STETHAddr,
-            ethers.ZeroAddress
-        ]);
-
-        rETHCompositeOracle = await ethers.deployContract("CompositeChainlinkOracle", [
-            ETH_USD_FEED,
-            RETH_ETH_FEED,
-            ethers.ZeroAddress
-        ]);
-    
+        // Nothing is wired: no oracle, no listed market and no CLR
+        ({
+            comptroller,
+            leverage,
+            clWstETH,
+            clRETH,
+            wstETHMock,
+            rETHMock,
+            priceOracle,
+            wstETHFeed,
+            clusterToken
+        } = await loadFixture(deployContractsFixture));
         clWstETHAddr = await clWstETH.getAddress();
         clRETHAddr = await clRETH.getAddress();
 
-        clusterToken = await ethers.deployContract("ClusterToken", [
-            deployer.address
-        ]);
-
         // Initial mint; 10M CLR tokens
         await clusterToken.initialMint(deployer.address, parseEther("10000000"));
     });
@@ -362,7 +290,7 @@ describe("Comptroller", function () {
                 // set underlying price feed
                 await priceOracle.setFeed(
                     await wstETHMock.symbol(),
-                    await wstETHCompositeOracle.getAddress()
+                    await wstETHFeed.getAddress()
                 );
 
                 const setCollateralTx = comptroller
@@ -734,7 +662,7 @@ describe("Comptroller", function () {
                 // should set underlying price feed prior to collateral factor configuration
                 await priceOracle.setFeed(
                     await wstETHMock.symbol(),
-                    await wstETHCompositeOracle.getAddress()
+                    await wstETHFeed.getAddress()
                 );
 
                 // should set price oracle
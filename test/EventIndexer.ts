@@ -0,0 +1,200 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { ClusterClient, EventIndexer } from "../sdk";
+import { ChainlinkOracleMock, ClErc20, RETHMock, WstETHMock } from "../typechain-types";
+import { deployProtocolFixture } from "./helpers/fixtures";
+
+const { parseEther, parseUnits } = ethers;
+
+describe("EventIndexer", function () {
+    let deployer: HardhatEthersSigner, liquidator: HardhatEthersSigner;
+    let alice: HardhatEthersSigner, bob: HardhatEthersSigner;
+    let clWstETH: ClErc20, clRETH: ClErc20;
+    let clWstETHAddr: string, clRETHAddr: string;
+    let wstETHMock: WstETHMock, rETHMock: RETHMock;
+    let wstETHFeed: ChainlinkOracleMock;
+    let client: ClusterClient;
+    let fromBlock: number;
+    let indexer: EventIndexer;
+
+    async function supplyAndBorrow(
+        user: HardhatEthersSigner,
+        wstETHAmount: bigint,
+        borrowAmount: bigint
+    ) {
+        const userClient = client.connect(user);
+
+        await wstETHMock.mint(user.address, wstETHAmount);
+        await userClient.mint(clWstETHAddr, wstETHAmount);
+        await userClient.enterMarkets([clWstETHAddr, clRETHAddr]);
+        await userClient.borrow(clRETHAddr, borrowAmount);
+    }
+
+    async function expectInSync(account: string, market: ClErc20) {
+        const address = await market.getAddress();
+        const state = indexer.getAccountState(account, address)!;
+        const marketState = indexer.getMarketState(address)!;
+
+        expect(state.clTokenBalance).to.equal(await market.balanceOf(account));
+        expect(state.borrowBalance).to.equal(await market.borrowBalanceStored(account));
+        expect(marketState.totalSupply).to.equal(await market.totalSupply());
+        expect(marketState.totalBorrows).to.equal(await market.totalBorrows());
+        expect(marketState.borrowIndex).to.equal(await market.borrowIndex());
+    }
+
+    beforeEach(async () => {
+        [deployer, liquidator, alice, bob] = await ethers.getSigners();
+
+        const fixture = await loadFixture(deployProtocolFixture);
+        ({
+            clWstETH,
+            clRETH,
+            clWstETHAddr,
+            clRETHAddr,
+            wstETHMock,
+            rETHMock,
+            wstETHFeed
+        } = fixture);
+        fromBlock = fixture.deploymentBlock;
+
+        client = await ClusterClient.load(
+            { comptroller: await fixture.comptroller.getAddress() },
+            ethers.provider
+        );
+
+        // rETH liquidity to borrow from
+        await rETHMock.mint(parseEther("100"), deployer.address);
+        await client.connect(deployer).mint(clRETHAddr, parseEther("100"));
+
+        indexer = new EventIndexer(client, ":memory:", { fromBlock });
+    });
+
+    afterEach(() => {
+        indexer.close();
+    });
+
+    it("Should store decoded events and derive account and market state", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), parseEther("2"));
+        await mine(10);
+        await client.connect(alice).repayBorrow(clRETHAddr, parseEther("1"));
+
+        const result = await indexer.sync();
+        expect(result.fromBlock).to.equal(fromBlock);
+        expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+        expect(indexer.lastBlock).to.equal(result.toBlock);
+
+        const names = indexer.getEvents({ account: alice.address }).map(e => e.name);
+        expect(names).to.include.members(["Mint", "MarketEntered", "Borrow", "RepayBorrow"]);
+
+        const [borrow] = indexer.getEvents({ name: "Borrow" });
+        expect(borrow.address).to.equal(clRETHAddr);
+        expect(borrow.args.borrowAmount).to.equal(parseEther("2").toString());
+
+        await expectInSync(alice.address, clWstETH);
+        await expectInSync(alice.address, clRETH);
+        expect(indexer.getAccountState(alice.address, clWstETHAddr)!.entered).to.equal(true);
+        expect(indexer.getAccountStates(alice.address).map(s => s.market)).to.have.members([
+            clWstETHAddr,
+            clRETHAddr
+        ]);
+    });
+
+    it("Should follow clToken transfers and liquidations", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), parseEther("8"));
+        await clWstETH.connect(alice).transfer(bob.address, parseUnits("1", 8));
+
+        await wstETHFeed.set(42, parseUnits("3000", 8), 0, 0, 42);
+        await rETHMock.mint(parseEther("1"), liquidator.address);
+        await client
+            .connect(liquidator)
+            .liquidateBorrow(clRETHAddr, alice.address, parseEther("1"), clWstETHAddr);
+        await indexer.sync();
+
+        expect(indexer.getEvents({ name: "LiquidateBorrow" })).to.have.length(1);
+        for (const account of [alice.address, bob.address, liquidator.address]) {
+            expect(indexer.getAccountState(account, clWstETHAddr)!.clTokenBalance).to.equal(
+                await clWstETH.balanceOf(account)
+            );
+        }
+        await expectInSync(alice.address, clRETH);
+        await expectInSync(alice.address, clWstETH);
+    });
+
+    it("Should index only the new blocks on the next sync", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), parseEther("1"));
+        const first = await indexer.sync();
+
+        await client.connect(alice).borrow(clRETHAddr, parseEther("1"));
+        const second = await indexer.sync();
+
+        expect(second.fromBlock).to.equal(first.toBlock + 1);
+        expect(indexer.getEvents({ name: "Borrow" })).to.have.length(2);
+        await expectInSync(alice.address, clRETH);
+    });
+
+    it("Should leave the confirmation blocks unindexed", async () => {
+        indexer.close();
+        indexer = new EventIndexer(client, ":memory:", { fromBlock, confirmations: 5 });
+
+        await supplyAndBorrow(alice, parseEther("10"), parseEther("1"));
+        await indexer.sync();
+        expect(indexer.getEvents({ name: "Borrow" })).to.have.length(0);
+
+        await mine(5);
+        await indexer.sync();
+        expect(indexer.getEvents({ name: "Borrow" })).to.have.length(1);
+    });
+
+    it("Should roll back the blocks of a reorg", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), parseEther("1"));
+        await indexer.sync();
+        const forkPoint = indexer.lastBlock!;
+
+        const snapshot = await network.provider.send("evm_snapshot");
+        await client.connect(alice).borrow(clRETHAddr, parseEther("2"));
+        await wstETHMock.mint(bob.address, parseEther("1"));
+        await client.connect(bob).mint(clWstETHAddr, parseEther("1"));
+        await indexer.sync();
+        expect(indexer.getEvents({ name: "Borrow" })).to.have.length(2);
+
+        // The other branch replaces bob's mint and alice's borrow with a repay
+        await network.provider.send("evm_revert", [snapshot]);
+        await client.connect(alice).repayBorrow(clRETHAddr, parseEther("0.5"));
+        await mine(3);
+
+        const result = await indexer.sync();
+        expect(result.rolledBackTo).to.equal(forkPoint);
+        expect(indexer.getEvents({ name: "Borrow" })).to.have.length(1);
+        expect(indexer.getEvents({ account: bob.address })).to.deep.equal([]);
+        expect(indexer.getAccountState(bob.address, clWstETHAddr)).to.equal(undefined);
+        expect(indexer.getEvents({ name: "RepayBorrow" })).to.have.length(1);
+        await expectInSync(alice.address, clRETH);
+    });
+
+    it("Should resume from a database file", async () => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "index.db");
+        indexer.close();
+        indexer = new EventIndexer(client, file, { fromBlock });
+
+        await supplyAndBorrow(alice, parseEther("10"), parseEther("1"));
+        const { toBlock } = await indexer.sync();
+        indexer.close();
+
+        indexer = new EventIndexer(client, file, { fromBlock });
+        expect(indexer.lastBlock).to.equal(toBlock);
+        expect(indexer.getEvents({ name: "Borrow" })).to.have.length(1);
+
+        const other = await ClusterClient.load(
+            { comptroller: clWstETHAddr, priceOracle: clWstETHAddr },
+            ethers.provider
+        );
+        expect(() => new EventIndexer(other, file)).to.throw(
+            `${file} indexes the comptroller ${client.addresses.comptroller}, not ${clWstETHAddr}`
+        );
+    });
+});
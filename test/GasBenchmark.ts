@@ -0,0 +1,210 @@
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ContractTransactionResponse } from "ethers";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { ethers } from "hardhat";
+import path from "path";
+import { BALANCER_VAULT } from "../sdk";
+import { etchBalancerVault } from "./helpers/balancerVault";
+import { deployProtocolFixture } from "./helpers/fixtures";
+
+const { MaxUint256, parseEther } = ethers;
+
+const SNAPSHOT = path.join(__dirname, "snapshots", "gas.json");
+// relative increase over the snapshot past which an operation fails
+const THRESHOLD = Number(process.env.GAS_THRESHOLD ?? 0.01);
+const UPDATE = process.env.UPDATE_GAS_SNAPSHOT === "true";
+
+// Liquidity checks loop over the markets an account entered
+const ENTERED_MARKETS = [1, 5, 10];
+const MARKETS = 10;
+
+const OPERATIONS = [
+    "mint",
+    "borrow",
+    "repayBorrow",
+    "redeem",
+    "claimClr",
+    "Leverage.loop",
+    "liquidateBorrow"
+] as const;
+
+/** Gas used by each operation, by number of markets the account entered */
+type GasSnapshot = Record<string, Record<number, number>>;
+
+/**
+ * `deployProtocolFixture` with 8 more markets listed at $1000 and a collateral factor of 0.8,
+ * CLR speeds on every market, and the Balancer vault mock holding wstETH to flash loan.
+ * wstETH is supplied by a lender, and the user holds 100 of every underlying.
+ */
+async function deployBenchmarkFixture() {
+    const protocol = await deployProtocolFixture();
+    const { comptroller, priceOracle, jumpRateModel, wstETHMock, rETHMock } = protocol;
+    const [deployer, user, lender, liquidator] = await ethers.getSigners();
+
+    const clTokens = [protocol.clWstETH, protocol.clRETH];
+    const underlyings: { mint(to: string, amount: bigint): Promise<unknown> }[] = [
+        wstETHMock,
+        { mint: (to, amount) => rETHMock.mint(amount, to) }
+    ];
+    for (let i = clTokens.length; i < MARKETS; i++) {
+        const underlying = await ethers.deployContract("ERC20DecimalsMock", [
+            `Token ${i}`,
+            `TKN${i}`,
+            18
+        ]);
+        const clToken = await ethers.deployContract("ClErc20", [
+            await underlying.getAddress(),
+            await comptroller.getAddress(),
+            await jumpRateModel.getAddress(),
+            parseEther("1"),
+            `Cluster Token ${i}`,
+            `clTKN${i}`,
+            8,
+            deployer.address
+        ]);
+        const clTokenAddr = await clToken.getAddress();
+        await comptroller.supportMarket(clTokenAddr);
+        await priceOracle.setDirectPrice(await underlying.getAddress(), parseEther("1000"));
+        await comptroller.setCollateralFactor(clTokenAddr, parseEther("0.8"));
+
+        clTokens.push(clToken);
+        underlyings.push(underlying);
+    }
+    const clTokenAddrs = await Promise.all(clTokens.map(c => c.getAddress()));
+
+    const speeds = clTokenAddrs.map(() => parseEther("0.001"));
+    await comptroller.setClrSpeeds(clTokenAddrs, speeds, speeds);
+
+    await etchBalancerVault();
+    await wstETHMock.mint(BALANCER_VAULT, parseEther("1000"));
+
+    await wstETHMock.mint(lender.address, parseEther("1000"));
+    await wstETHMock.connect(lender).approve(clTokenAddrs[0], MaxUint256);
+    await clTokens[0].connect(lender).mint(parseEther("1000"));
+    await wstETHMock.mint(liquidator.address, parseEther("100"));
+    await wstETHMock.connect(liquidator).approve(clTokenAddrs[0], MaxUint256);
+
+    for (const [i, underlying] of underlyings.entries()) {
+        await underlying.mint(user.address, parseEther("100"));
+        const token = await ethers.getContractAt("IERC20", await clTokens[i].underlying());
+        await token.connect(user).approve(clTokenAddrs[i], MaxUint256);
+    }
+    await wstETHMock.connect(user).approve(await protocol.leverage.getAddress(), MaxUint256);
+
+    return { ...protocol, user, liquidator, clTokens, clTokenAddrs };
+}
+
+function loadSnapshot(): GasSnapshot {
+    return existsSync(SNAPSHOT) ? JSON.parse(readFileSync(SNAPSHOT, "utf8")) : {};
+}
+
+/**
+ * Gas of the user operations, with the account in 1, 5 and 10 markets, against the snapshot in
+ * `snapshots/gas.json`. Every operation is on the wstETH market. The snapshot is rewritten
+ * instead with `npm run gas:snapshot`, and `GAS_THRESHOLD` sets the increase allowed (1%).
+ */
+describe("GasBenchmark", function () {
+    const results: GasSnapshot = {};
+
+    async function measure(
+        operation: (typeof OPERATIONS)[number],
+        markets: number,
+        tx: Promise<ContractTransactionResponse>
+    ) {
+        const receipt = await (await tx).wait();
+        results[operation] = { ...results[operation], [markets]: Number(receipt!.gasUsed) };
+    }
+
+    for (const markets of ENTERED_MARKETS) {
+        it(`Should measure the operations in ${markets} entered markets`, async () => {
+            const { comptroller, leverage, user, liquidator, clTokens, clTokenAddrs } =
+                await loadFixture(deployBenchmarkFixture);
+            const clWstETH = clTokens[0].connect(user);
+            const wstETHAddr = await clWstETH.underlying();
+            const entered = clTokenAddrs.slice(0, markets);
+
+            // the other markets hold collateral too, so that each is priced
+            await comptroller.connect(user).enterMarkets(entered);
+            for (const clToken of clTokens.slice(1, markets)) {
+                await clToken.connect(user).mint(parseEther("10"));
+            }
+
+            await measure("mint", markets, clWstETH.mint(parseEther("10")));
+            await measure("borrow", markets, clWstETH.borrow(parseEther("5")));
+            await mine(100);
+            await measure("repayBorrow", markets, clWstETH.repayBorrow(parseEther("1")));
+            await measure("redeem", markets, clWstETH.redeem(parseEther("1")));
+            await mine(100);
+            await measure(
+                "claimClr",
+                markets,
+                comptroller["claimClr(address,address[])"](user.address, entered)
+            );
+            await measure(
+                "Leverage.loop",
+                markets,
+                leverage.connect(user).loop(wstETHAddr, parseEther("1"), parseEther("1"))
+            );
+
+            // without collateral factors the borrow is in shortfall
+            for (const clTokenAddr of entered) {
+                await comptroller.setCollateralFactor(clTokenAddr, 0);
+            }
+            await measure(
+                "liquidateBorrow",
+                markets,
+                clTokens[0]
+                    .connect(liquidator)
+                    .liquidateBorrow(user.address, parseEther("1"), clTokenAddrs[0])
+            );
+        });
+    }
+
+    it("Should not use more gas than the snapshot", async () => {
+        const snapshot = loadSnapshot();
+
+        const entries = (gas: GasSnapshot) =>
+            Object.entries(gas).flatMap(([operation, byMarkets]) =>
+                Object.keys(byMarkets).map(markets => `${operation} in ${markets} markets`)
+            );
+        // A failed or filtered out measurement would pass unchecked or leave a partial snapshot,
+        // and an operation only in the snapshot is no longer measured
+        const expected = OPERATIONS.flatMap(operation =>
+            ENTERED_MARKETS.map(markets => `${operation} in ${markets} markets`)
+        );
+        const measured = new Set(entries(results));
+        const missing = [...new Set([...expected, ...(UPDATE ? [] : entries(snapshot))])]
+            .filter(entry => !measured.has(entry))
+            .map(entry => `${entry} was not measured`);
+        if (missing.length > 0) {
+            expect.fail(`${missing.join("\n")}\nrun the whole suite, or update the snapshot`);
+        }
+
+        if (UPDATE) {
+            writeFileSync(SNAPSHOT, JSON.stringify(results, null, 4) + "\n");
+            return;
+        }
+
+        const regressions: string[] = [];
+        const rows = [];
+        for (const [operation, byMarkets] of Object.entries(results)) {
+            for (const [markets, gas] of Object.entries(byMarkets)) {
+                const baseline = snapshot[operation]?.[Number(markets)];
+                if (baseline === undefined) {
+                    regressions.push(`${operation} in ${markets} markets has no baseline`);
+                } else if (gas > baseline * (1 + THRESHOLD)) {
+                    regressions.push(`${operation} in ${markets} markets: ${baseline} -> ${gas}`);
+                }
+
+                const change = baseline && `${(((gas - baseline) / baseline) * 100).toFixed(2)}%`;
+                rows.push({ operation, markets, gas, baseline, change });
+            }
+        }
+        console.table(rows);
+
+        if (regressions.length > 0) {
+            expect.fail(`${regressions.join("\n")}\nrun \`npm run gas:snapshot\` if intended`);
+        }
+    });
+});
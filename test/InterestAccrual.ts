@@ -0,0 +1,245 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+    accrueInterest,
+    BorrowSnapshot,
+    getBorrowBalance,
+    getBorrowRate,
+    getExchangeRate,
+    InterestSnapshot,
+    JumpRateModelSnapshot
+} from "../sdk";
+import { ClErc20 } from "../typechain-types";
+import { deployProtocolFixture } from "./helpers/fixtures";
+import { Random } from "./helpers/random";
+
+const { parseEther } = ethers;
+
+const SUPPLY = parseEther("100");
+const ACCRUALS = 25;
+
+/**
+ * Compares the interest accrual of a market with the off-chain model of `sdk/interest.ts`, to
+ * the wei, over hundreds of thousands of blocks mined in jumps of thousands.
+ */
+describe("InterestAccrual", function () {
+    const random = Random.fromEnv();
+
+    let borrowers: HardhatEthersSigner[];
+    let clWstETH: ClErc20;
+    let irm: JumpRateModelSnapshot;
+
+    // the model, advanced along with the market
+    let market: InterestSnapshot;
+    let accounts: Map<string, BorrowSnapshot>;
+    // borrow index without truncation, scaled by 1e36
+    let exactIndex: bigint;
+    let accruals: bigint;
+
+    async function readMarket(): Promise<InterestSnapshot> {
+        const [
+            cash,
+            totalBorrows,
+            totalReserves,
+            totalSupply,
+            borrowIndex,
+            accrualBlockNumber,
+            reserveFactor
+        ] = await Promise.all([
+            clWstETH.getCash(),
+            clWstETH.totalBorrows(),
+            clWstETH.totalReserves(),
+            clWstETH.totalSupply(),
+            clWstETH.borrowIndex(),
+            clWstETH.accrualBlockNumber(),
+            clWstETH.reserveFactorMantissa()
+        ]);
+
+        return {
+            cash,
+            totalBorrows,
+            totalReserves,
+            totalSupply,
+            borrowIndex,
+            accrualBlockNumber,
+            reserveFactor,
+            initialExchangeRate: parseEther("1")
+        };
+    }
+
+    /**
+     * Advances the model to the block of a transaction, markets accrue before anything else.
+     */
+    function accrueModel(blockNumber: number) {
+        const next = accrueInterest(market, irm, BigInt(blockNumber));
+
+        // Every truncation rounds the index down, in favour of borrowers, by less than 1 wei
+        const rate = getBorrowRate(irm, market.cash, market.totalBorrows, market.totalReserves);
+        const factor = rate * (next.accrualBlockNumber - market.accrualBlockNumber);
+        exactIndex += (exactIndex * factor) / parseEther("1");
+        if (next !== market) accruals++;
+
+        market = next;
+    }
+
+    async function expectModel() {
+        expect(await readMarket()).to.deep.equal(market);
+
+        for (const [account, snapshot] of accounts) {
+            expect(await clWstETH.borrowBalanceStored(account), account).to.equal(
+                getBorrowBalance(snapshot, market.borrowIndex)
+            );
+        }
+
+        const drift = exactIndex / parseEther("1") - market.borrowIndex;
+        expect(drift, "borrow index rounding").to.be.within(0n, accruals);
+    }
+
+    /**
+     * Mines `blocks` blocks and checks the current values the market would accrue to, then
+     * accrues interest and checks every stored value against the model.
+     */
+    async function accrue(blocks: number) {
+        await mine(blocks);
+
+        // calls run in the context of the latest block
+        const latest = BigInt(await ethers.provider.getBlockNumber());
+        const current = accrueInterest(market, irm, latest);
+        for (const [account, snapshot] of accounts) {
+            expect(await clWstETH.borrowBalanceCurrent.staticCall(account), account).to.equal(
+                getBorrowBalance(snapshot, current.borrowIndex)
+            );
+        }
+        expect(await clWstETH.exchangeRateCurrent.staticCall()).to.equal(
+            getExchangeRate(current)
+        );
+
+        const receipt = await (await clWstETH.accrueInterest()).wait();
+        accrueModel(receipt!.blockNumber);
+        await expectModel();
+    }
+
+    async function borrow(borrower: HardhatEthersSigner, amount: bigint) {
+        const receipt = await (await clWstETH.connect(borrower).borrow(amount)).wait();
+        accrueModel(receipt!.blockNumber);
+
+        const snapshot = accounts.get(borrower.address) ?? { principal: 0n, interestIndex: 0n };
+        accounts.set(borrower.address, {
+            principal: getBorrowBalance(snapshot, market.borrowIndex) + amount,
+            interestIndex: market.borrowIndex
+        });
+        market = {
+            ...market,
+            cash: market.cash - amount,
+            totalBorrows: market.totalBorrows + amount
+        };
+        await expectModel();
+    }
+
+    async function repay(borrower: HardhatEthersSigner, amount: bigint) {
+        const receipt = await (await clWstETH.connect(borrower).repayBorrow(amount)).wait();
+        accrueModel(receipt!.blockNumber);
+
+        const snapshot = accounts.get(borrower.address)!;
+        accounts.set(borrower.address, {
+            principal: getBorrowBalance(snapshot, market.borrowIndex) - amount,
+            interestIndex: market.borrowIndex
+        });
+        market = {
+            ...market,
+            cash: market.cash + amount,
+            totalBorrows: market.totalBorrows - amount
+        };
+        await expectModel();
+    }
+
+    async function setReserveFactor(reserveFactor: bigint) {
+        const receipt = await (await clWstETH.setReserveFactor(reserveFactor)).wait();
+        accrueModel(receipt!.blockNumber);
+
+        market = { ...market, reserveFactor };
+        await expectModel();
+    }
+
+    beforeEach(async () => {
+        let supplier: HardhatEthersSigner;
+        [, supplier, ...borrowers] = await ethers.getSigners();
+        borrowers = borrowers.slice(0, 2);
+
+        const fixture = await loadFixture(deployProtocolFixture);
+        const { comptroller, jumpRateModel, wstETHMock, rETHMock, clRETH } = fixture;
+        clWstETH = fixture.clWstETH;
+
+        const [baseRatePerBlock, multiplierPerBlock, jumpMultiplierPerBlock, kink] =
+            await Promise.all([
+                jumpRateModel.baseRatePerBlock(),
+                jumpRateModel.multiplierPerBlock(),
+                jumpRateModel.jumpMultiplierPerBlock(),
+                jumpRateModel.kink()
+            ]);
+        irm = { baseRatePerBlock, multiplierPerBlock, jumpMultiplierPerBlock, kink };
+
+        await wstETHMock.mint(supplier.address, SUPPLY);
+        await wstETHMock.connect(supplier).approve(fixture.clWstETHAddr, SUPPLY);
+        await clWstETH.connect(supplier).mint(SUPPLY);
+
+        // rETH collateral for borrowing the whole wstETH supply, and wstETH for repaying
+        for (const borrower of borrowers) {
+            await rETHMock.mint(parseEther("200"), borrower.address);
+            await rETHMock.connect(borrower).approve(fixture.clRETHAddr, parseEther("200"));
+            await clRETH.connect(borrower).mint(parseEther("200"));
+            await comptroller.connect(borrower).enterMarkets([fixture.clRETHAddr]);
+
+            await wstETHMock.mint(borrower.address, parseEther("10"));
+            await wstETHMock.connect(borrower).approve(fixture.clWstETHAddr, ethers.MaxUint256);
+        }
+
+        market = await readMarket();
+        accounts = new Map();
+        exactIndex = market.borrowIndex * parseEther("1");
+        accruals = 0n;
+    });
+
+    for (const [utilization, reserveFactor] of [
+        ["0.1", "0"],
+        ["0.5", "0.1"],
+        ["0.9", "0.25"],
+        ["0.97", "0.5"]
+    ]) {
+        const title = `${utilization} utilization and a ${reserveFactor} reserve factor`;
+        it(`Should match the model at ${title}`, async () => {
+            await setReserveFactor(parseEther(reserveFactor));
+
+            // the second borrow starts from a later index
+            const borrowed = (SUPPLY * parseEther(utilization)) / parseEther("1");
+            await borrow(borrowers[0], borrowed / 3n);
+            await accrue(5000);
+            await borrow(borrowers[1], borrowed - borrowed / 3n);
+
+            for (let i = 0; i < ACCRUALS; i++) {
+                await accrue(random.int(1000, 20000));
+            }
+        });
+    }
+
+    it("Should match the model as the utilization and the reserve factor change", async () => {
+        await borrow(borrowers[0], parseEther("40"));
+
+        for (let i = 0; i < ACCRUALS; i++) {
+            await accrue(random.int(1000, 20000));
+
+            const borrower = random.pick(borrowers);
+            const owed = await clWstETH.borrowBalanceStored(borrower.address);
+            if (random.bool() && owed > 0n) {
+                const max = owed < parseEther("10") ? owed : parseEther("10");
+                await repay(borrower, random.bigint(1n, max));
+            } else {
+                await borrow(borrower, random.bigint(1n, parseEther("5")));
+            }
+
+            if (random.bool(0.3)) await setReserveFactor(random.bigint(0n, parseEther("0.5")));
+        }
+    });
+});
@@ -1,7 +1,9 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { JumpRateModel } from "../typechain-types";
+import { deployContractsFixture } from "./helpers/fixtures";
 
 const blocksPerYear = 2102400n;
 
@@ -61,15 +63,8 @@ describe("InterestRateModel", function () {
     beforeEach(async () => {
         // Contracts are deployed using the first signer/account by default
         [deployer, user] = await ethers.getSigners();
-        // Comptroller contract instance
-        jumpRateModel = await ethers.deployContract("JumpRateModel", [
-            blocksPerYear,
-            baseRatePerYear,
-            multiplierPerYear,
-            jumpMultiplierPerYear,
-            kink,
-            deployer.address
-        ]);
+        // Deployed with the parameters above
+        ({ jumpRateModel } = await loadFixture(deployContractsFixture));
     });
 
     context("Deployment", () => {
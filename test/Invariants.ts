@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { generateSteps, runSteps, shrinkSteps, Step } from "./helpers/invariants";
+import { Random } from "./helpers/random";
+
+const REGRESSIONS = path.join(__dirname, "regressions", "invariants.json");
+const SEQUENCES = Number(process.env.SEQUENCES ?? 8);
+const STEPS = Number(process.env.STEPS ?? 80);
+
+interface Regression {
+    seed: number;
+    failure: string;
+    steps: Step[];
+}
+
+function loadRegressions(): Regression[] {
+    return existsSync(REGRESSIONS) ? JSON.parse(readFileSync(REGRESSIONS, "utf8")) : [];
+}
+
+/**
+ * Stateful fuzzing of the markets: random sequences of user actions, price moves and block
+ * advances, with the invariants of `helpers/invariants.ts` checked after every step.
+ * A failing sequence is shrunk and appended to `regressions/invariants.json`, which is replayed
+ * first on every run. Sequence `i` uses the seed `SEED + i`, so a failure can be replayed with
+ * `SEED=<seed> SEQUENCES=1 npx hardhat test test/Invariants.ts`.
+ */
+describe("Invariants", function () {
+    const random = Random.fromEnv();
+
+    // every step mines a block and reads the whole state back
+    this.timeout(0);
+
+    it("Should hold on the saved regressions", async () => {
+        for (const regression of loadRegressions()) {
+            const failure = await runSteps(regression.steps);
+            expect(failure?.message, `regression seed ${regression.seed}`).to.be.undefined;
+        }
+    });
+
+    it("Should hold on random sequences", async () => {
+        for (let i = 0; i < SEQUENCES; i++) {
+            const seed = random.seed + i;
+            const steps = generateSteps(new Random(seed), STEPS);
+
+            const failure = await runSteps(steps);
+            if (failure === undefined) continue;
+
+            const shrunk = await shrinkSteps(steps.slice(0, failure.step + 1));
+            const regression = {
+                seed,
+                failure: (await runSteps(shrunk))?.message ?? failure.message,
+                steps: shrunk
+            };
+            writeFileSync(
+                REGRESSIONS,
+                JSON.stringify([...loadRegressions(), regression], null, 4) + "\n"
+            );
+            expect.fail(
+                `seed ${seed}, step ${failure.step}: ${failure.message}\n` +
+                    `shrunk to ${shrunk.length} steps in ${REGRESSIONS}`
+            );
+        }
+    });
+});
@@ -1,12 +1,17 @@
 import { expect } from "chai";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { ethers, network, upgrades } from "hardhat";
-import { 
+import { loadFixture, setBalance } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+import { BALANCER_VAULT } from "../sdk";
+import {
+    BalancerVaultMock,
     ClErc20,
-    CompositeChainlinkOracle,
-    IERC20,
-    PriceOracle
+    PriceOracle,
+    RETHMock,
+    WstETHMock
 } from "../typechain-types";
+import { etchBalancerVault } from "./helpers/balancerVault";
+import { deployContractsFixture } from "./helpers/fixtures";
 
 const { parseEther } = ethers;
 
@@ -14,92 +19,51 @@ describe("Leverage", function () {
     let deployer: HardhatEthersSigner, user1: HardhatEthersSigner;
     let comptroller: any;
     let leverage: any;
-    let clWstETH: ClErc20;
-    let wstETH: IERC20;
-    let clWstETHAddr: string;
+    let leverageAddr: string;
+    let clWstETH: ClErc20, clRETH: ClErc20;
+    let clWstETHAddr: string, clRETHAddr: string;
+    let wstETH: WstETHMock, rETH: RETHMock;
+    let wstETHAddr: string, rETHAddr: string;
     let priceOracle: PriceOracle;
-    let wstETHCompositeOracle: CompositeChainlinkOracle;
-    
-    const baseRatePerYear = parseEther("0.1");
-    const multiplierPerYear = parseEther("0.45");
-    const jumpMultiplierPerYear = parseEther("5");
-    const kink = parseEther("0.9");
+    let vault: BalancerVaultMock;
 
-    const initialExchangeRate = parseEther("1");
-
-    const wstETHAddr = "0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0";
-    // wstETH holder
-    const user1Addr = "0x0E774BBed46B477538f5b34c8618858d3d86e530";
-
-    // Base oracle address
-    const STETH_USD_FEED = "0xCfE54B5cD566aB89272946F602D76Ea879CAb4a8";
-    // Multiplier(Quote) oracle address
-    const STETHAddr = "0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84";
+    // flash loan liquidity of the vault in each token
+    const vaultLiquidity = parseEther("1000");
+    const userBalance = parseEther("100");
 
     beforeEach(async () => {
-        [deployer] = await ethers.getSigners();
-
-        const Comptroller = await ethers.getContractFactory("Comptroller");
-        comptroller = await upgrades.deployProxy(Comptroller);
-        comptroller.waitForDeployment();
-
-        const Leverage = await ethers.getContractFactory("Leverage");
-        leverage = await upgrades.deployProxy(Leverage, [
-            await comptroller.getAddress()
-        ]);
-        leverage.waitForDeployment();
-
-        const blocksPerYear = 2102400n;
-        const jumpRateModel = await ethers.deployContract("JumpRateModel", [
-            blocksPerYear,
-            baseRatePerYear,
-            multiplierPerYear,
-            jumpMultiplierPerYear,
-            kink,
-            deployer.address
-        ]);
-
-        wstETH = await ethers.getContractAt("IERC20", wstETHAddr);
-
-        clWstETH = await ethers.deployContract("ClErc20", [
-            wstETHAddr,
-            await comptroller.getAddress(),
-            await jumpRateModel.getAddress(),
-            initialExchangeRate,
-            "Cluster WstETH Token",
-            "clWstETH",
-            8,
-            deployer.address
-        ]);
+        [deployer, user1] = await ethers.getSigners();
+
+        // No market is listed yet
+        const fixture = await loadFixture(deployContractsFixture);
+        ({
+            comptroller,
+            leverage,
+            clWstETH,
+            clRETH,
+            wstETHMock: wstETH,
+            rETHMock: rETH,
+            priceOracle
+        } = fixture);
+        leverageAddr = await leverage.getAddress();
         clWstETHAddr = await clWstETH.getAddress();
+        clRETHAddr = await clRETH.getAddress();
+        wstETHAddr = await wstETH.getAddress();
+        rETHAddr = await rETH.getAddress();
 
-        wstETHCompositeOracle = await ethers.deployContract("CompositeChainlinkOracle", [
-            STETH_USD_FEED,
-            STETHAddr,
-            ethers.ZeroAddress
-        ]);
-
-        priceOracle = await ethers.deployContract("PriceOracle");
-        
         // set price oracle
+        await priceOracle.setFeed("wstETH", await fixture.wstETHFeed.getAddress());
+        await priceOracle.setFeed("rETH", await fixture.rETHFeed.getAddress());
         await comptroller.connect(deployer).setPriceOracle(
             await priceOracle.getAddress()
         );
 
-        // set underlying price feeds
-        await priceOracle.setFeed(
-            "wstETH",
-            await wstETHCompositeOracle.getAddress()
-        );
-
-        // impersonating
-        await network.provider.request({
-            method: "hardhat_impersonateAccount",
-            params: [user1Addr],
-        });
+        vault = await etchBalancerVault();
+        await wstETH.mint(BALANCER_VAULT, vaultLiquidity);
+        await rETH.mint(vaultLiquidity, BALANCER_VAULT);
 
-        // get signer
-        user1 = await ethers.getSigner(user1Addr);
+        await wstETH.mint(user1.address, userBalance);
+        await rETH.mint(userBalance, user1.address);
     });
 
     context("Deployment", () => {
@@ -235,7 +199,7 @@ describe("Leverage", function () {
                 clWstETHAddr,
                 collateralFactor
             );
-            await comptroller.setLeverageAddress(await leverage.getAddress());
+            await comptroller.setLeverageAddress(leverageAddr);
             await comptroller.connect(user1).enterMarkets([clWstETHAddr]);
         });
 
@@ -259,19 +223,230 @@ describe("Leverage", function () {
             });
 
             it("Should only supply without flashloan if borrow amount is 0 (i.e. 1x)", async () => {
-                await wstETH.connect(user1).approve(await leverage.getAddress(), amount);
+                await wstETH.connect(user1).approve(leverageAddr, amount);
                 await leverage.connect(user1).loop(wstETHAddr, amount, 0);
 
                 expect(await clWstETH.balanceOf(user1.address)).to.equal(amount);
-                expect(await clWstETH.borrowBalanceStored(user1.address));
+                expect(await clWstETH.borrowBalanceStored(user1.address)).to.equal(0n);
             });
 
             it("Should have both supply and borrow positions if leverage ratio > 1x", async () => {
                 const leverageRatio = 15000n; // 1.5x
                 // collateral * (LR - 1) / LR
                 const borrowAmount = amount * (leverageRatio - divisor) / leverageRatio;
-                await wstETH.connect(user1).approve(await leverage.getAddress(), amount + borrowAmount);
+                await wstETH.connect(user1).approve(leverageAddr, amount + borrowAmount);
                 await leverage.connect(user1).loop(wstETHAddr, amount, borrowAmount);
+
+                expect(await clWstETH.balanceOf(user1.address)).to.equal(amount + borrowAmount);
+                expect(await clWstETH.borrowBalanceStored(user1.address)).to.equal(borrowAmount);
+                expect(await wstETH.balanceOf(user1.address)).to.equal(userBalance - amount);
+                // the flash loan is repaid
+                expect(await wstETH.balanceOf(BALANCER_VAULT)).to.equal(vaultLiquidity);
+                expect(await wstETH.balanceOf(leverageAddr)).to.equal(0n);
+                expect(await clWstETH.balanceOf(leverageAddr)).to.equal(0n);
+            });
+        });
+
+        context("Flash loan", () => {
+            const borrowAmount = parseEther("2");
+            const userData = (user: string, token: string, borrowed: bigint) =>
+                ethers.AbiCoder.defaultAbiCoder().encode(
+                    ["tuple(address,address,uint256)"],
+                    [[user, token, borrowed]]
+                );
+
+            beforeEach(async () => {
+                await leverage.connect(deployer).addMarket(clWstETHAddr);
+            });
+
+            it("Should borrow the flash loan fee on top of the borrow amount", async () => {
+                // 0.1%
+                await vault.setFlashLoanFeePercentage(parseEther("0.001"));
+                const fee = borrowAmount / 1000n;
+                await wstETH.connect(user1).approve(leverageAddr, amount + borrowAmount + fee);
+
+                await expect(
+                    leverage.connect(user1).loop(wstETHAddr, amount, borrowAmount)
+                ).to.emit(vault, "FlashLoan").withArgs(leverageAddr, wstETHAddr, borrowAmount, fee);
+
+                expect(await clWstETH.balanceOf(user1.address)).to.equal(amount + borrowAmount);
+                expect(await clWstETH.borrowBalanceStored(user1.address)).to.equal(
+                    borrowAmount + fee
+                );
+                expect(await wstETH.balanceOf(BALANCER_VAULT)).to.equal(vaultLiquidity + fee);
+                expect(await wstETH.balanceOf(user1.address)).to.equal(userBalance - amount);
+            });
+
+            it("Should round the flash loan fee up", async () => {
+                await vault.setFlashLoanFeePercentage(parseEther("0.001"));
+                await wstETH.connect(user1).approve(leverageAddr, amount + 1003n);
+
+                // 0.1% of 1001 wei is 1.001 wei
+                await expect(
+                    leverage.connect(user1).loop(wstETHAddr, amount, 1001n)
+                ).to.emit(vault, "FlashLoan").withArgs(leverageAddr, wstETHAddr, 1001n, 2n);
+                expect(await clWstETH.borrowBalanceStored(user1.address)).to.equal(1003n);
+            });
+
+            it("Should revert if the flash loan fee is not approved", async () => {
+                await vault.setFlashLoanFeePercentage(parseEther("0.001"));
+                await wstETH.connect(user1).approve(leverageAddr, amount + borrowAmount);
+
+                const loopTx = leverage.connect(user1).loop(wstETHAddr, amount, borrowAmount);
+
+                await expect(loopTx).to.revertedWithCustomError(
+                    wstETH, "ERC20InsufficientAllowance"
+                );
+            });
+
+            it("Should revert if the vault does not hold the borrow amount", async () => {
+                await wstETH.connect(user1).approve(leverageAddr, ethers.MaxUint256);
+
+                const loopTx = leverage.connect(user1).loop(
+                    wstETHAddr,
+                    amount,
+                    vaultLiquidity + 1n
+                );
+
+                await expect(loopTx).to.revertedWithCustomError(
+                    leverage, "TooMuchBorrow"
+                );
+            });
+
+            it("Should revert if the borrow exceeds the collateral", async () => {
+                await wstETH.connect(user1).approve(leverageAddr, ethers.MaxUint256);
+
+                // (1 + 5) * 0.8 of collateral for 5 of borrows
+                const loopTx = leverage.connect(user1).loop(wstETHAddr, amount, parseEther("5"));
+
+                await expect(loopTx).to.revertedWithCustomError(
+                    comptroller, "InsufficientLiquidity"
+                );
+            });
+
+            it("Should revert if the callback is not called by the vault", async () => {
+                const receiveTx = leverage.connect(user1).receiveFlashLoan(
+                    [wstETHAddr],
+                    [borrowAmount],
+                    [0n],
+                    userData(user1.address, wstETHAddr, borrowAmount)
+                );
+
+                await expect(receiveTx).to.revertedWithCustomError(
+                    leverage, "NotBalancerVault"
+                );
+            });
+
+            it("Should revert if the loan does not match the user data", async () => {
+                await setBalance(BALANCER_VAULT, parseEther("1"));
+                const vaultSigner = await ethers.getImpersonatedSigner(BALANCER_VAULT);
+
+                // another amount
+                await expect(
+                    leverage.connect(vaultSigner).receiveFlashLoan(
+                        [wstETHAddr],
+                        [borrowAmount + 1n],
+                        [0n],
+                        userData(user1.address, wstETHAddr, borrowAmount)
+                    )
+                ).to.revertedWithCustomError(leverage, "InvalidLoanData");
+
+                // another token
+                await expect(
+                    leverage.connect(vaultSigner).receiveFlashLoan(
+                        [rETHAddr],
+                        [borrowAmount],
+                        [0n],
+                        userData(user1.address, wstETHAddr, borrowAmount)
+                    )
+                ).to.revertedWithCustomError(leverage, "InvalidLoanData");
+            });
+        });
+
+        context("Borrow on behalf", () => {
+            beforeEach(async () => {
+                await leverage.connect(deployer).addMarket(clWstETHAddr);
+                await wstETH.connect(user1).approve(leverageAddr, ethers.MaxUint256);
+            });
+
+            it("Should revert if the comptroller does not trust the Leverage contract", async () => {
+                await comptroller.setLeverageAddress(deployer.address);
+
+                const loopTx = leverage.connect(user1).loop(wstETHAddr, amount, amount);
+
+                await expect(loopTx).to.revertedWithCustomError(
+                    comptroller, "SenderMustBeLeverage"
+                );
+            });
+
+            it("Should revert if anyone else borrows on behalf of a user", async () => {
+                await leverage.connect(user1).loop(wstETHAddr, amount, 0);
+
+                const borrowBehalfTx = clWstETH
+                    .connect(user1)
+                    .borrowBehalf(user1.address, amount / 2n);
+
+                await expect(borrowBehalfTx).to.revertedWithCustomError(
+                    comptroller, "SenderMustBeLeverage"
+                );
+            });
+
+            it("Should borrow on behalf of the caller only", async () => {
+                await leverage.connect(user1).loop(wstETHAddr, amount, amount);
+
+                expect(await clWstETH.borrowBalanceStored(user1.address)).to.equal(amount);
+                expect(await clWstETH.borrowBalanceStored(deployer.address)).to.equal(0n);
+                expect(await clWstETH.borrowBalanceStored(leverageAddr)).to.equal(0n);
+            });
+        });
+
+        context("Multiple markets", () => {
+            beforeEach(async () => {
+                await comptroller.supportMarket(clRETHAddr);
+                await comptroller.setCollateralFactor(clRETHAddr, collateralFactor);
+                await comptroller.connect(user1).enterMarkets([clRETHAddr]);
+                await leverage.addMarket(clWstETHAddr);
+                await leverage.addMarket(clRETHAddr);
+
+                await wstETH.connect(user1).approve(leverageAddr, ethers.MaxUint256);
+                await rETH.connect(user1).approve(leverageAddr, ethers.MaxUint256);
+            });
+
+            it("Should flash loan and supply the underlying of each market", async () => {
+                await leverage.connect(user1).loop(wstETHAddr, amount, amount);
+                await leverage.connect(user1).loop(rETHAddr, amount * 2n, amount);
+
+                expect(await clWstETH.balanceOf(user1.address)).to.equal(amount * 2n);
+                expect(await clWstETH.borrowBalanceStored(user1.address)).to.equal(amount);
+                expect(await clRETH.balanceOf(user1.address)).to.equal(amount * 3n);
+                expect(await clRETH.borrowBalanceStored(user1.address)).to.equal(amount);
+
+                expect(await wstETH.balanceOf(BALANCER_VAULT)).to.equal(vaultLiquidity);
+                expect(await rETH.balanceOf(BALANCER_VAULT)).to.equal(vaultLiquidity);
+            });
+
+            it("Should lever a market against the collateral of another", async () => {
+                // 1 rETH ($3500) borrowed against 0.8 * $3500 of rETH supply alone
+                const loopTx = leverage.connect(user1).loop(rETHAddr, 0, amount);
+                await expect(loopTx).to.revertedWithCustomError(
+                    comptroller, "InsufficientLiquidity"
+                );
+
+                // plus 0.8 * $4000 of wstETH
+                await leverage.connect(user1).loop(wstETHAddr, amount, 0);
+                await leverage.connect(user1).loop(rETHAddr, 0, amount);
+
+                expect(await clRETH.balanceOf(user1.address)).to.equal(amount);
+                expect(await clRETH.borrowBalanceStored(user1.address)).to.equal(amount);
+            });
+
+            it("Should only loop the markets still allowed", async () => {
+                await leverage.removeMarket(clRETHAddr);
+
+                await expect(
+                    leverage.connect(user1).loop(rETHAddr, amount, amount)
+                ).to.revertedWithCustomError(leverage, "NotAllowedMarket");
+                await leverage.connect(user1).loop(wstETHAddr, amount, amount);
             });
         });
     });
@@ -0,0 +1,176 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { BALANCER_VAULT, ClusterClient, LeveragePlanner } from "../sdk";
+import { ClErc20, WstETHMock } from "../typechain-types";
+import { etchBalancerVault } from "./helpers/balancerVault";
+import { deployProtocolFixture } from "./helpers/fixtures";
+
+const { parseEther } = ethers;
+
+describe("LeveragePlanner", function () {
+    let deployer: HardhatEthersSigner, user: HardhatEthersSigner;
+    let comptroller: any;
+    let leverage: any;
+    let clWstETH: ClErc20;
+    let wstETHMock: WstETHMock;
+    let clWstETHAddr: string, wstETHAddr: string;
+    let planner: LeveragePlanner;
+
+    beforeEach(async () => {
+        [deployer, user] = await ethers.getSigners();
+
+        // Leverage allows both markets
+        ({ comptroller, leverage, clWstETH, clWstETHAddr, wstETHMock } =
+            await loadFixture(deployProtocolFixture));
+        wstETHAddr = await wstETHMock.getAddress();
+
+        await wstETHMock.mint(user.address, parseEther("10"));
+        // flash loan liquidity
+        await wstETHMock.mint(BALANCER_VAULT, parseEther("1000"));
+
+        const client = await ClusterClient.load(
+            { comptroller: await comptroller.getAddress() },
+            user
+        );
+        planner = new LeveragePlanner(client, await leverage.getAddress());
+    });
+
+    context("Plan", () => {
+        it("Should plan the loop for a target leverage", async () => {
+            const plan = await planner.plan(user.address, wstETHAddr, parseEther("1"), 3);
+
+            expect(plan.clToken).to.equal(clWstETHAddr);
+            expect(plan.borrowAmount).to.equal(parseEther("2"));
+            expect(plan.fee).to.equal(0n);
+            // the deposit and the flash loan repayment
+            expect(plan.allowance).to.equal(parseEther("3"));
+            expect(plan.enterMarket).to.equal(true);
+            expect(plan.leverage).to.equal(3);
+            // 3 wstETH * 0.8 of collateral over 2 wstETH of borrows
+            expect(plan.healthFactor).to.be.closeTo(1.2, 1e-9);
+        });
+
+        it("Should borrow the most the collateral factor allows at the health factor", async () => {
+            const plan = await planner.plan(user.address, wstETHAddr, parseEther("1"));
+
+            // (1 + borrow) * 0.8 = 1.05 * borrow
+            expect(plan.limitedBy).to.equal("collateral");
+            expect(plan.borrowAmount).to.equal(plan.maxBorrowAmount);
+            expect(plan.maxBorrowAmount).to.be.closeTo(parseEther("3.2"), 10n);
+            expect(plan.healthFactor).to.be.closeTo(1.05, 1e-9);
+        });
+
+        it("Should count the flash loan fee as borrowed", async () => {
+            const plan = await planner.plan(user.address, wstETHAddr, parseEther("1"), 2, {
+                flashLoanFee: parseEther("0.01")
+            });
+
+            expect(plan.fee).to.equal(parseEther("0.01"));
+            expect(plan.allowance).to.equal(parseEther("2.01"));
+            expect(plan.healthFactor).to.be.closeTo(1.6 / 1.01, 1e-9);
+        });
+
+        it("Should count the existing positions", async () => {
+            await planner.client.mint(clWstETHAddr, parseEther("1"));
+
+            // not entered yet, the supply becomes collateral with the loop
+            const plan = await planner.plan(user.address, wstETHAddr, parseEther("1"), 2);
+            expect(plan.enterMarket).to.equal(true);
+            expect(plan.healthFactor).to.be.closeTo(2.4, 1e-9);
+
+            await planner.client.enterMarkets([clWstETHAddr]);
+            const entered = await planner.plan(user.address, wstETHAddr, parseEther("1"), 2);
+            expect(entered.enterMarket).to.equal(false);
+        });
+
+        it("Should be limited by the vault liquidity", async () => {
+            await network.provider.send("hardhat_setBalance", [
+                BALANCER_VAULT,
+                ethers.toQuantity(parseEther("1"))
+            ]);
+            const vault = await ethers.getImpersonatedSigner(BALANCER_VAULT);
+            await wstETHMock.connect(vault).transfer(deployer.address, parseEther("999"));
+
+            const plan = await planner.plan(user.address, wstETHAddr, parseEther("1"));
+            expect(plan.limitedBy).to.equal("vault liquidity");
+            expect(plan.maxBorrowAmount).to.equal(parseEther("1"));
+
+            await expect(
+                planner.plan(user.address, wstETHAddr, parseEther("1"), 3)
+            ).to.be.rejectedWith("limited by vault liquidity");
+        });
+
+        it("Should be limited by the borrow cap", async () => {
+            await comptroller.setMarketBorrowCaps([clWstETHAddr], [parseEther("0.5")]);
+
+            const plan = await planner.plan(user.address, wstETHAddr, parseEther("1"));
+            expect(plan.limitedBy).to.equal("borrow cap");
+            expect(plan.maxBorrowAmount).to.equal(parseEther("0.5") - 1n);
+        });
+
+        it("Should reject a leverage above the safe maximum", async () => {
+            await expect(
+                planner.plan(user.address, wstETHAddr, parseEther("1"), 5)
+            ).to.be.rejectedWith("exceeds the safe maximum");
+            await expect(
+                planner.plan(user.address, wstETHAddr, parseEther("1"), 3, {
+                    minHealthFactor: 1
+                })
+            ).to.be.rejectedWith("The minimum health factor must be above 1");
+        });
+
+        it("Should reject a token not allowed for leverage", async () => {
+            await leverage.removeMarket(clWstETHAddr);
+
+            await expect(
+                planner.plan(user.address, wstETHAddr, parseEther("1"), 2)
+            ).to.be.rejectedWith(`Token ${wstETHAddr} is not allowed for leverage`);
+        });
+
+        it("Should reject a Leverage the comptroller does not trust", async () => {
+            await comptroller.setLeverageAddress(deployer.address);
+
+            await expect(
+                planner.plan(user.address, wstETHAddr, parseEther("1"), 2)
+            ).to.be.rejectedWith(`Comptroller only lets ${deployer.address} borrow on behalf`);
+        });
+    });
+
+    context("Open", () => {
+        it("Should approve, enter the market and simulate before sending", async () => {
+            const plan = await planner.plan(user.address, wstETHAddr, parseEther("1"), 2);
+            const nonce = await user.getNonce();
+
+            // there is no Balancer vault on this network, the simulation reverts
+            await expect(planner.open(plan)).to.be.rejected;
+
+            expect(await wstETHMock.allowance(user.address, await leverage.getAddress())).to.equal(
+                plan.allowance
+            );
+            expect(await comptroller.checkMembership(user.address, clWstETHAddr)).to.equal(true);
+            // the approval and the market entry only
+            expect(await user.getNonce()).to.equal(nonce + 2);
+        });
+
+        it("Should open the planned loop with the flash loan fee", async () => {
+            const vault = await etchBalancerVault(parseEther("0.001"));
+            const plan = await planner.plan(user.address, wstETHAddr, parseEther("1"), 3, {
+                flashLoanFee: parseEther("0.001")
+            });
+
+            await expect(planner.open(plan))
+                .to.emit(vault, "FlashLoan")
+                .withArgs(await leverage.getAddress(), wstETHAddr, plan.borrowAmount, plan.fee);
+
+            expect(await clWstETH.balanceOf(user.address)).to.equal(parseEther("3"));
+            expect(await clWstETH.borrowBalanceStored(user.address)).to.equal(
+                plan.borrowAmount + plan.fee
+            );
+            expect(await wstETHMock.allowance(user.address, await leverage.getAddress())).to.equal(
+                0n
+            );
+        });
+    });
+});
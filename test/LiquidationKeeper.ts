@@ -0,0 +1,207 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ClusterClient, LiquidationKeeper } from "../sdk";
+import { ChainlinkOracleMock, ClErc20, RETHMock, WstETHMock } from "../typechain-types";
+import { deployProtocolFixture } from "./helpers/fixtures";
+
+const { parseEther, parseUnits } = ethers;
+
+describe("LiquidationKeeper", function () {
+    let deployer: HardhatEthersSigner, liquidator: HardhatEthersSigner;
+    let alice: HardhatEthersSigner, bob: HardhatEthersSigner, carol: HardhatEthersSigner;
+    let clWstETH: ClErc20, clRETH: ClErc20;
+    let clWstETHAddr: string, clRETHAddr: string;
+    let wstETHMock: WstETHMock, rETHMock: RETHMock;
+    let wstETHFeed: ChainlinkOracleMock;
+    let client: ClusterClient;
+    let keeper: LiquidationKeeper;
+
+    async function crashWstETH(price: string) {
+        await wstETHFeed.set(42, parseUnits(price, 8), 0, 0, 42);
+    }
+
+    async function supplyAndBorrow(
+        user: HardhatEthersSigner,
+        wstETHAmount: bigint,
+        rETHAmount: bigint,
+        borrowAmount: bigint
+    ) {
+        const userClient = client.connect(user);
+
+        if (wstETHAmount > 0n) {
+            await wstETHMock.mint(user.address, wstETHAmount);
+            await userClient.mint(clWstETHAddr, wstETHAmount);
+        }
+        if (rETHAmount > 0n) {
+            await rETHMock.mint(rETHAmount, user.address);
+            await userClient.mint(clRETHAddr, rETHAmount);
+        }
+        await userClient.enterMarkets([clWstETHAddr, clRETHAddr]);
+        await userClient.borrow(clRETHAddr, borrowAmount);
+    }
+
+    beforeEach(async () => {
+        [deployer, liquidator, alice, bob, carol] = await ethers.getSigners();
+
+        const fixture = await loadFixture(deployProtocolFixture);
+        ({
+            clWstETH,
+            clRETH,
+            clWstETHAddr,
+            clRETHAddr,
+            wstETHMock,
+            rETHMock,
+            wstETHFeed
+        } = fixture);
+
+        client = await ClusterClient.load(
+            { comptroller: await fixture.comptroller.getAddress() },
+            ethers.provider
+        );
+
+        // rETH liquidity to borrow from
+        await rETHMock.mint(parseEther("100"), deployer.address);
+        await client.connect(deployer).mint(clRETHAddr, parseEther("100"));
+        // inventory of the liquidator
+        await rETHMock.mint(parseEther("100"), liquidator.address);
+
+        const fromBlock = await ethers.provider.getBlockNumber();
+        keeper = new LiquidationKeeper(client.connect(liquidator), fromBlock);
+    });
+
+    it("Should require a signer", async () => {
+        expect(() => new LiquidationKeeper(client)).to.throw(
+            "LiquidationKeeper needs a signer to send transactions"
+        );
+    });
+
+    it("Should discover borrowers from Borrow events", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), 0n, parseEther("1"));
+        expect(await keeper.syncBorrowers()).to.deep.equal([alice.address]);
+
+        await supplyAndBorrow(bob, parseEther("10"), 0n, parseEther("1"));
+        await client.connect(alice).borrow(clRETHAddr, parseEther("1"));
+
+        expect(await keeper.syncBorrowers()).to.deep.equal([bob.address]);
+        expect([...keeper.borrowers]).to.deep.equal([alice.address, bob.address]);
+    });
+
+    it("Should page the Borrow events in batches of blocks", async () => {
+        const fromBlock = await ethers.provider.getBlockNumber();
+        await supplyAndBorrow(alice, parseEther("10"), 0n, parseEther("1"));
+        await supplyAndBorrow(bob, parseEther("10"), 0n, parseEther("1"));
+
+        const paged = new LiquidationKeeper(client.connect(liquidator), fromBlock, 2);
+        expect(await paged.syncBorrowers()).to.deep.equal([alice.address, bob.address]);
+        expect(await paged.syncBorrowers()).to.deep.equal([]);
+    });
+
+    it("Should liquidate only the accounts in shortfall after a price crash", async () => {
+        // 32000 of collateral each, alice and carol close to the limit
+        await supplyAndBorrow(alice, parseEther("10"), 0n, parseEther("8"));
+        await supplyAndBorrow(bob, parseEther("10"), 0n, parseEther("2"));
+        await supplyAndBorrow(carol, parseEther("10"), parseEther("1"), parseEther("9"));
+
+        expect(await keeper.run()).to.deep.equal([]);
+
+        await crashWstETH("3000");
+        await keeper.syncBorrowers();
+        expect(await keeper.findShortfalls()).to.deep.equal([alice.address, carol.address]);
+
+        const aliceBorrow = await clRETH.borrowBalanceStored(alice.address);
+        const carolBorrow = await clRETH.borrowBalanceStored(carol.address);
+        const results = await keeper.run();
+
+        expect(results.map(r => r.borrower)).to.deep.equal([alice.address, carol.address]);
+        for (const { plan, receipt, error } of results) {
+            expect(error).to.equal(undefined);
+            expect(receipt!.status).to.equal(1);
+            expect(plan!.clTokenBorrowed).to.equal(clRETHAddr);
+            // the largest collateral is seized, the rETH one of carol only covers a small repay
+            expect(plan!.clTokenCollateral).to.equal(clWstETHAddr);
+        }
+        // repaid up to the close factor
+        expect(results[0].plan!.repayAmount).to.equal(aliceBorrow / 2n);
+        // plus the interest accrued by the liquidation of alice
+        expect(results[1].plan!.repayAmount).to.be.closeTo(carolBorrow / 2n, parseEther("0.0001"));
+
+        expect(await clRETH.borrowBalanceStored(alice.address)).to.be.lt(aliceBorrow);
+        expect(await clRETH.borrowBalanceStored(carol.address)).to.be.lt(carolBorrow);
+        expect(await clRETH.borrowBalanceStored(bob.address)).to.be.gte(parseEther("2"));
+        expect(await clWstETH.balanceOf(bob.address)).to.equal(parseEther("10"));
+        expect(await clWstETH.balanceOf(liquidator.address)).to.be.gt(0n);
+    });
+
+    it("Should liquidate the other accounts when a price read reverts", async () => {
+        const comptroller = client.comptroller.connect(deployer);
+        const priceOracle = client.priceOracle.connect(deployer);
+
+        // a third market whose feed breaks, bob holds some collateral in it
+        const token = await ethers.deployContract("ERC20DecimalsMock", ["Token", "TKN", 18]);
+        const clToken = await ethers.deployContract("ClErc20", [
+            await token.getAddress(),
+            await comptroller.getAddress(),
+            await clRETH.interestRateModel(),
+            parseEther("1"),
+            "Cluster Token",
+            "clTKN",
+            8,
+            deployer.address
+        ]);
+        const clTokenAddr = await clToken.getAddress();
+        const feed = await ethers.deployContract("ChainlinkOracleMock", [parseUnits("1", 8), 8]);
+        await comptroller.supportMarket(clTokenAddr);
+        await priceOracle.setFeed("TKN", await feed.getAddress());
+
+        await supplyAndBorrow(alice, parseEther("10"), 0n, parseEther("8"));
+        await supplyAndBorrow(bob, parseEther("10"), 0n, parseEther("8"));
+        await token.mint(bob.address, parseEther("1"));
+        await token.connect(bob).approve(clTokenAddr, parseEther("1"));
+        await clToken.connect(bob).mint(parseEther("1"));
+        await comptroller.connect(bob).enterMarkets([clTokenAddr]);
+
+        await crashWstETH("3000");
+        await feed.set(42, 0, 0, 0, 42);
+
+        const [aliceResult, bobResult] = await keeper.run();
+
+        expect(aliceResult.borrower).to.equal(alice.address);
+        expect(aliceResult.error).to.equal(undefined);
+        expect(aliceResult.receipt!.status).to.equal(1);
+        expect(bobResult.borrower).to.equal(bob.address);
+        expect(bobResult.plan).to.equal(undefined);
+        expect(bobResult.error?.message).to.include("InvalidAnswer");
+    });
+
+    it("Should repay no more than the liquidator holds", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), 0n, parseEther("8"));
+        await crashWstETH("3000");
+
+        await rETHMock.connect(liquidator).transfer(deployer.address, parseEther("99"));
+        await keeper.syncBorrowers();
+
+        const plan = await keeper.planLiquidation(alice.address);
+        expect(plan!.repayAmount).to.equal(parseEther("1"));
+
+        await rETHMock.connect(liquidator).transfer(deployer.address, parseEther("1"));
+        expect(await keeper.planLiquidation(alice.address)).to.equal(undefined);
+    });
+
+    it("Should not seize more than the collateral of the borrower", async () => {
+        await supplyAndBorrow(alice, parseEther("10"), 0n, parseEther("8"));
+        // 4 rETH repaid at the close factor would seize 15.12 wstETH
+        await crashWstETH("1000");
+        await keeper.syncBorrowers();
+
+        const plan = await keeper.planLiquidation(alice.address);
+        const collateral = await clWstETH.balanceOf(alice.address);
+        expect(plan!.repayAmount).to.be.lt(parseEther("4"));
+        expect(plan!.seizeTokens).to.be.lte(collateral);
+        expect(plan!.seizeTokens).to.be.closeTo(collateral, collateral / 1000n);
+
+        await keeper.liquidate(plan!);
+        expect(await clWstETH.balanceOf(alice.address)).to.be.lt(collateral / 1000n);
+    });
+});
@@ -0,0 +1,218 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+    ClusterClient,
+    getAccountLiquidity,
+    getHypotheticalAccountLiquidity,
+    liquidateCalculateSeizeTokens
+} from "../sdk";
+import { getInitialExchangeRate } from "../tasks/utils/markets";
+import { ClErc20, ERC20DecimalsMock, PriceOracle } from "../typechain-types";
+import { deployContractsFixture } from "./helpers/fixtures";
+import { Random } from "./helpers/random";
+
+const { parseEther } = ethers;
+
+// underlying and clToken decimals of the markets
+const MARKETS = [
+    [6, 8],
+    [8, 8],
+    [18, 8],
+    [18, 18]
+];
+const ITERATIONS = 20;
+
+/**
+ * Differential tests of the off-chain liquidity math against the Comptroller,
+ * on random prices, collateral factors, exchange rates and positions.
+ * Replay a failure with `SEED=<seed> npx hardhat test test/Liquidity.ts`.
+ */
+describe("Liquidity", function () {
+    const random = Random.fromEnv();
+
+    let deployer: HardhatEthersSigner, users: HardhatEthersSigner[];
+    let comptroller: any;
+    let priceOracle: PriceOracle;
+    let clTokens: ClErc20[], clTokenAddrs: string[];
+    let underlyings: ERC20DecimalsMock[];
+    let client: ClusterClient;
+
+    /**
+     * Runs the same computation on chain and off chain, both must either fail or agree.
+     */
+    async function expectSame<T>(label: string, onChain: () => Promise<T>, offChain: () => T) {
+        let expected: T;
+        try {
+            expected = await onChain();
+        } catch {
+            expect(offChain, `${label} (seed ${random.seed})`).to.throw();
+            return;
+        }
+        expect(offChain(), `${label} (seed ${random.seed})`).to.deep.equal(expected);
+    }
+
+    async function randomizeMarkets() {
+        for (let i = 0; i < clTokens.length; i++) {
+            // a zero price makes the comptroller revert, both sides must fail alike
+            const price = random.bool(0.03) ? 0n : random.bigint(10n ** 15n, 10n ** 23n);
+            await priceOracle.setDirectPrice(await underlyings[i].getAddress(), price);
+
+            if (price > 0n) {
+                const collateralFactor = random.bigint(0n, parseEther("0.9"));
+                await comptroller.setCollateralFactor(clTokenAddrs[i], collateralFactor);
+            }
+
+            // donations move the exchange rate away from round numbers
+            if (random.bool(0.3) && (await clTokens[i].totalSupply()) > 0n) {
+                const decimals = MARKETS[i][0];
+                const amount = random.bigint(1n, 10n ** BigInt(decimals));
+                await underlyings[i].mint(clTokenAddrs[i], amount);
+            }
+        }
+    }
+
+    async function randomizePositions(user: HardhatEthersSigner) {
+        const userClient = client.connect(user);
+
+        for (const i of random.subset([...clTokens.keys()])) {
+            const decimals = BigInt(MARKETS[i][0]);
+            const amount = random.bigint(10n ** decimals / 1000n + 1n, 10n ** (decimals + 4n));
+            await underlyings[i].mint(user.address, amount);
+            await userClient.mint(clTokenAddrs[i], amount).catch(() => undefined);
+        }
+
+        const toEnter = random.subset(clTokenAddrs);
+        if (toEnter.length > 0) await userClient.enterMarkets(toEnter);
+
+        const i = random.int(0, clTokens.length - 1);
+        const [liquidity] = await comptroller.getAccountLiquidity(user.address).catch(() => [0n]);
+        const price = await priceOracle.getUnderlyingPrice(clTokenAddrs[i]);
+        if (liquidity > 0n && price > 0n) {
+            const cash = await clTokens[i].getCash();
+            const max = (liquidity * parseEther("1")) / price;
+            const amount = random.bigint(0n, max < cash ? max : cash);
+            // setup only, a borrow rejected by the comptroller just leaves the state as is
+            await userClient.borrow(clTokenAddrs[i], amount).catch(() => undefined);
+        }
+    }
+
+    before(async () => {
+        [deployer, ...users] = await ethers.getSigners();
+        users = users.slice(0, 4);
+
+        // Only the markets below get listed
+        const fixture = await loadFixture(deployContractsFixture);
+        ({ comptroller, priceOracle } = fixture);
+        await comptroller.setPriceOracle(await priceOracle.getAddress());
+        await comptroller.setCloseFactor(parseEther("0.5"));
+        await comptroller.setLiquidationIncentive(parseEther("1.08"));
+
+        underlyings = [];
+        clTokens = [];
+        for (const [i, [underlyingDecimals, decimals]] of MARKETS.entries()) {
+            const underlying = await ethers.deployContract("ERC20DecimalsMock", [
+                `Token ${i}`,
+                `TKN${i}`,
+                underlyingDecimals
+            ]);
+            const clToken = await ethers.deployContract("ClErc20", [
+                await underlying.getAddress(),
+                await comptroller.getAddress(),
+                await fixture.jumpRateModel.getAddress(),
+                getInitialExchangeRate(underlyingDecimals, decimals),
+                `Cluster Token ${i}`,
+                `clTKN${i}`,
+                decimals,
+                deployer.address
+            ]);
+            await comptroller.supportMarket(await clToken.getAddress());
+
+            underlyings.push(underlying);
+            clTokens.push(clToken);
+        }
+        clTokenAddrs = await Promise.all(clTokens.map(c => c.getAddress()));
+
+        client = await ClusterClient.load(
+            { comptroller: await comptroller.getAddress() },
+            ethers.provider
+        );
+    });
+
+    it("Should match the Comptroller to the wei on random states", async () => {
+        const liquidationIncentive = await comptroller.liquidationIncentiveMantissa();
+
+        for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+            await randomizeMarkets();
+
+            for (const user of users) {
+                await randomizePositions(user);
+
+                const assets = await client.getAccountSnapshot(user.address);
+
+                await expectSame(
+                    `getAccountLiquidity #${iteration}`,
+                    async () => {
+                        const [liquidity, shortfall] = await comptroller.getAccountLiquidity(
+                            user.address
+                        );
+                        return { liquidity, shortfall };
+                    },
+                    () => getAccountLiquidity(assets)
+                );
+
+                const modify = random.pick(clTokenAddrs);
+                const redeemTokens = random.bool() ? 0n : random.bigint(0n, 10n ** 20n);
+                const borrowAmount = random.bool() ? 0n : random.bigint(0n, 10n ** 24n);
+                await expectSame(
+                    `getHypotheticalAccountLiquidity #${iteration}`,
+                    async () => {
+                        const [liquidity, shortfall] =
+                            await comptroller.getHypotheticalAccountLiquidity(
+                                user.address,
+                                modify,
+                                redeemTokens,
+                                borrowAmount
+                            );
+                        return { liquidity, shortfall };
+                    },
+                    () =>
+                        getHypotheticalAccountLiquidity(
+                            assets,
+                            modify,
+                            redeemTokens,
+                            borrowAmount
+                        )
+                );
+            }
+
+            for (let k = 0; k < 4; k++) {
+                const borrowed = random.pick(clTokenAddrs);
+                const collateral = random.pick(clTokenAddrs);
+                const repayAmount = random.bigint(0n, 10n ** 24n);
+                const [borrowedSnapshot, collateralSnapshot] = await Promise.all([
+                    client.getMarketSnapshot(borrowed),
+                    client.getMarketSnapshot(collateral)
+                ]);
+
+                await expectSame(
+                    `liquidateCalculateSeizeTokens #${iteration}`,
+                    () =>
+                        comptroller.liquidateCalculateSeizeTokens(
+                            borrowed,
+                            collateral,
+                            repayAmount
+                        ),
+                    () =>
+                        liquidateCalculateSeizeTokens(
+                            borrowedSnapshot,
+                            collateralSnapshot,
+                            liquidationIncentive,
+                            repayAmount
+                        )
+                );
+            }
+        }
+    });
+});
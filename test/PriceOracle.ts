@@ -1,7 +1,9 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { ethers } from "hardhat";
 import { PriceOracle } from "../typechain-types";
+import { deployContractsFixture } from "./helpers/fixtures";
 
 describe("PriceOracle", function () {
     let deployer: HardhatEthersSigner, account1: HardhatEthersSigner;
@@ -14,8 +16,8 @@ describe("PriceOracle", function () {
 
     beforeEach(async () => {
         [deployer, account1] = await ethers.getSigners();
-        // PriceOracle contract instance
-        priceOracle = await ethers.deployContract("PriceOracle");
+        // PriceOracle contract instance, without any feed
+        ({ priceOracle } = await loadFixture(deployContractsFixture));
     });
 
     context("Deployment", () => {
@@ -0,0 +1,285 @@
+import {
+    impersonateAccount,
+    loadFixture,
+    setBalance
+} from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Interface, Result } from "ethers";
+import hre, { ethers } from "hardhat";
+import { RiskParamsConfig } from "../config/types";
+import { RiskParamCall, planRiskParams, readMarketRiskState } from "../tasks/utils/riskParams";
+import { toSafeBatch } from "../tasks/utils/safe";
+import { deployProtocolFixture } from "./helpers/fixtures";
+
+const { formatEther, parseEther, parseUnits } = ethers;
+
+/**
+ * The protocol of `deployProtocolFixture` with a 6 decimals market listed, clRETH
+ * distributing CLR and a second interest rate model to switch to.
+ */
+async function deployRiskParamsFixture() {
+    const fixture = await deployProtocolFixture();
+    const { comptroller, clRETHAddr } = fixture;
+    const [deployer] = await ethers.getSigners();
+
+    const usdcMock = await ethers.deployContract("ERC20DecimalsMock", ["USD Coin", "USDC", 6]);
+    const clUSDC = await ethers.deployContract("ClErc20", [
+        await usdcMock.getAddress(),
+        await comptroller.getAddress(),
+        await fixture.jumpRateModel.getAddress(),
+        parseEther("1"),
+        "Cluster USDC Token",
+        "clUSDC",
+        8,
+        deployer.address
+    ]);
+    const clUSDCAddr = await clUSDC.getAddress();
+    await comptroller.supportMarket(clUSDCAddr);
+
+    await comptroller.setClrSpeeds([clRETHAddr], [parseEther("1")], [parseEther("2")]);
+
+    const newModel = await ethers.deployContract("JumpRateModel", [
+        2102400n,
+        parseEther("0.05"),
+        parseEther("0.3"),
+        parseEther("3"),
+        parseEther("0.8"),
+        deployer.address
+    ]);
+
+    return { ...fixture, clUSDCAddr, newModelAddr: await newModel.getAddress() };
+}
+
+function toArray(result: Result): unknown[] {
+    return result.toArray().map(value => (value instanceof Result ? toArray(value) : value));
+}
+
+describe("RiskParams", function () {
+    let fixture: Awaited<ReturnType<typeof deployRiskParamsFixture>>;
+    let comptrollerAddr: string;
+
+    /** Decodes a call of the plan into its method and args */
+    function decode(call: RiskParamCall): [string, unknown[]] {
+        const contractInterface: Interface =
+            call.to === comptrollerAddr
+                ? fixture.comptroller.interface
+                : fixture.clWstETH.interface;
+        return [call.method, toArray(contractInterface.decodeFunctionData(call.method, call.data))];
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(deployRiskParamsFixture);
+        comptrollerAddr = await fixture.comptroller.getAddress();
+    });
+
+    it("Should order pauses, models, reserve factors, borrow caps, collateral factors, CLR speeds and unpauses", async () => {
+        const { comptroller, clWstETHAddr, clRETHAddr, newModelAddr } = fixture;
+        await comptroller.setMintPaused(clRETHAddr, true);
+
+        const calls = await planRiskParams(hre, comptrollerAddr, {
+            markets: {
+                [clWstETHAddr]: {
+                    collateralFactor: "0.7",
+                    borrowCap: "100",
+                    reserveFactor: "0.2",
+                    interestRateModel: newModelAddr,
+                    clrSupplySpeed: "0.5",
+                    mintPaused: true
+                },
+                [clRETHAddr]: { mintPaused: false }
+            },
+            seizePaused: true
+        });
+
+        expect(calls.map(decode)).to.deep.equal([
+            ["setMintPaused", [clWstETHAddr, true]],
+            ["setSeizePaused", [true]],
+            ["setInterestRateModel", [newModelAddr]],
+            ["setReserveFactor", [parseEther("0.2")]],
+            ["setMarketBorrowCaps", [[clWstETHAddr], [parseEther("100")]]],
+            ["setCollateralFactor", [clWstETHAddr, parseEther("0.7")]],
+            ["setClrSpeeds", [[clWstETHAddr], [parseEther("0.5")], [0n]]],
+            ["setMintPaused", [clRETHAddr, false]]
+        ]);
+        expect(calls.map(call => call.to)).to.deep.equal([
+            comptrollerAddr,
+            comptrollerAddr,
+            clWstETHAddr,
+            clWstETHAddr,
+            comptrollerAddr,
+            comptrollerAddr,
+            comptrollerAddr,
+            comptrollerAddr
+        ]);
+        expect(calls[4].changes).to.deep.equal([
+            {
+                market: "clWstETH",
+                parameter: "borrow cap",
+                current: "unlimited",
+                desired: "100.0 wstETH"
+            }
+        ]);
+    });
+
+    it("Should leave out the parameters that already have their desired value", async () => {
+        const { clWstETH, clWstETHAddr, clRETHAddr, jumpRateModel } = fixture;
+
+        const calls = await planRiskParams(hre, comptrollerAddr, {
+            markets: {
+                [clWstETHAddr]: {
+                    collateralFactor: "0.8",
+                    borrowCap: "0",
+                    reserveFactor: formatEther(await clWstETH.reserveFactorMantissa()),
+                    interestRateModel: await jumpRateModel.getAddress(),
+                    clrSupplySpeed: "0",
+                    clrBorrowSpeed: "0",
+                    mintPaused: false,
+                    borrowPaused: false
+                },
+                [clRETHAddr]: { clrSupplySpeed: "1", clrBorrowSpeed: "2" }
+            },
+            transferPaused: false,
+            seizePaused: false
+        });
+
+        expect(calls).to.deep.equal([]);
+    });
+
+    it("Should keep the live value of the CLR speed that is not given", async () => {
+        const { clRETHAddr } = fixture;
+
+        const calls = await planRiskParams(hre, comptrollerAddr, {
+            markets: { [clRETHAddr]: { clrBorrowSpeed: "3" } }
+        });
+
+        expect(calls.map(decode)).to.deep.equal([
+            ["setClrSpeeds", [[clRETHAddr], [parseEther("1")], [parseEther("3")]]]
+        ]);
+        expect(calls[0].changes).to.deep.equal([
+            {
+                market: "clRETH",
+                parameter: "CLR borrow speed",
+                current: "2.0 CLR/block",
+                desired: "3.0 CLR/block"
+            }
+        ]);
+    });
+
+    it("Should set borrow caps in the decimals of the underlying", async () => {
+        const { clWstETHAddr, clUSDCAddr } = fixture;
+
+        const calls = await planRiskParams(hre, comptrollerAddr, {
+            markets: {
+                [clUSDCAddr]: { borrowCap: "1000000" },
+                [clWstETHAddr]: { borrowCap: "1000" }
+            }
+        });
+
+        expect(calls.map(decode)).to.deep.equal([
+            [
+                "setMarketBorrowCaps",
+                [
+                    [clUSDCAddr, clWstETHAddr],
+                    [parseUnits("1000000", 6), parseEther("1000")]
+                ]
+            ]
+        ]);
+        expect(calls[0].changes.map(change => change.desired)).to.deep.equal([
+            "1000000.0 USDC",
+            "1000.0 wstETH"
+        ]);
+    });
+
+    it("Should build a Safe Transaction Builder batch of the calls", async () => {
+        const { comptroller, clWstETHAddr } = fixture;
+        const safe = await comptroller.admin();
+        const calls = await planRiskParams(hre, comptrollerAddr, {
+            markets: { [clWstETHAddr]: { reserveFactor: "0.2", collateralFactor: "0.7" } }
+        });
+
+        const batch = toSafeBatch(31337n, calls, {
+            name: "Risk parameters",
+            description: "Tune clWstETH",
+            safe
+        });
+
+        expect(batch.createdAt).to.be.a("number");
+        expect({ ...batch, createdAt: 0 }).to.deep.equal({
+            version: "1.0",
+            chainId: "31337",
+            createdAt: 0,
+            meta: {
+                name: "Risk parameters",
+                description: "Tune clWstETH",
+                txBuilderVersion: "1.16.5",
+                createdFromSafeAddress: safe,
+                createdFromOwnerAddress: ""
+            },
+            transactions: calls.map(({ to, data }) => ({
+                to,
+                value: "0",
+                data,
+                contractMethod: null,
+                contractInputsValues: null
+            }))
+        });
+        // survives the JSON file the builder imports
+        expect(JSON.parse(JSON.stringify(batch))).to.deep.equal(batch);
+    });
+
+    it("Should apply the config when the admin executes the batch", async () => {
+        const { comptroller, clWstETHAddr, clRETHAddr, clUSDCAddr, newModelAddr } = fixture;
+        await comptroller.setBorrowPaused(clRETHAddr, true);
+
+        const config: RiskParamsConfig = {
+            markets: {
+                [clWstETHAddr]: {
+                    collateralFactor: "0.7",
+                    borrowCap: "100",
+                    reserveFactor: "0.2",
+                    interestRateModel: newModelAddr,
+                    clrSupplySpeed: "0.5",
+                    mintPaused: true
+                },
+                [clRETHAddr]: { clrBorrowSpeed: "3", borrowPaused: false },
+                [clUSDCAddr]: { borrowCap: "1000000" }
+            },
+            transferPaused: true
+        };
+        const batch = toSafeBatch(31337n, await planRiskParams(hre, comptrollerAddr, config), {
+            name: "Risk parameters",
+            description: ""
+        });
+
+        const adminAddr = await comptroller.admin();
+        await impersonateAccount(adminAddr);
+        await setBalance(adminAddr, parseEther("1"));
+        const admin = await ethers.getSigner(adminAddr);
+        for (const { to, value, data } of batch.transactions) {
+            await admin.sendTransaction({ to, value, data });
+        }
+
+        const wstETH = await readMarketRiskState(hre, comptrollerAddr, clWstETHAddr);
+        expect(wstETH.collateralFactor).to.equal(parseEther("0.7"));
+        expect(wstETH.borrowCap).to.equal(parseEther("100"));
+        expect(wstETH.reserveFactor).to.equal(parseEther("0.2"));
+        expect(wstETH.interestRateModel).to.equal(newModelAddr);
+        expect(wstETH.clrSupplySpeed).to.equal(parseEther("0.5"));
+        expect(wstETH.clrBorrowSpeed).to.equal(0n);
+        expect(wstETH.mintPaused).to.equal(true);
+
+        const rETH = await readMarketRiskState(hre, comptrollerAddr, clRETHAddr);
+        expect(rETH.clrSupplySpeed).to.equal(parseEther("1"));
+        expect(rETH.clrBorrowSpeed).to.equal(parseEther("3"));
+        expect(rETH.borrowPaused).to.equal(false);
+
+        const usdc = await readMarketRiskState(hre, comptrollerAddr, clUSDCAddr);
+        expect(usdc.borrowCap).to.equal(parseUnits("1000000", 6));
+
+        expect(await comptroller.transferGuardianPaused()).to.equal(true);
+        expect(await comptroller.seizeGuardianPaused()).to.equal(false);
+
+        // nothing left to change
+        expect(await planRiskParams(hre, comptrollerAddr, config)).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,18 @@
+import { ethers, network } from "hardhat";
+import { BALANCER_VAULT } from "../../sdk";
+import { BalancerVaultMock } from "../../typechain-types";
+
+/**
+ * Etches `BalancerVaultMock` at the Balancer vault address hardcoded in `Leverage`, so flash
+ * loans work without a mainnet fork. The vault lends what it holds, so its liquidity is set
+ * by minting the underlyings to `BALANCER_VAULT`. The fee percentage is scaled by 1e18.
+ */
+export async function etchBalancerVault(flashLoanFeePercentage = 0n): Promise<BalancerVaultMock> {
+    const mock = await ethers.deployContract("BalancerVaultMock");
+    const code = await ethers.provider.getCode(await mock.getAddress());
+    await network.provider.send("hardhat_setCode", [BALANCER_VAULT, code]);
+
+    const vault = await ethers.getContractAt("BalancerVaultMock", BALANCER_VAULT);
+    await vault.setFlashLoanFeePercentage(flashLoanFeePercentage);
+    return vault;
+}
@@ -0,0 +1,130 @@
+import { HardhatNetworkConfig } from "hardhat/types";
+import { ethers, network, upgrades } from "hardhat";
+import { Comptroller, Leverage } from "../../typechain-types";
+
+const { parseEther, parseUnits } = ethers;
+
+/**
+ * Whether the hardhat network forks mainnet, which it only does with `FORK=true`. Suites
+ * built on live mainnet contracts skip themselves otherwise.
+ */
+export function isForking(): boolean {
+    return (network.config as HardhatNetworkConfig).forking?.enabled === true;
+}
+
+/**
+ * Deploys every contract of the protocol on mocks without wiring them together: the
+ * Comptroller has no oracle, no markets listed and no CLR, and the price oracle has no feed.
+ * Use with `loadFixture`.
+ */
+export async function deployContractsFixture() {
+    const [deployer] = await ethers.getSigners();
+    const deploymentBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+    const stETHMock = await ethers.deployContract("StETHMock");
+    const wstETHMock = await ethers.deployContract("WstETHMock", [await stETHMock.getAddress()]);
+    const rETHMock = await ethers.deployContract("RETHMock");
+    const erc20Mock = await ethers.deployContract("ERC20Mock");
+
+    // USD prices of the underlyings, with the 8 decimals of Chainlink USD feeds
+    const wstETHFeed = await ethers.deployContract("ChainlinkOracleMock", [
+        parseUnits("4000", 8),
+        8
+    ]);
+    const rETHFeed = await ethers.deployContract("ChainlinkOracleMock", [
+        parseUnits("3500", 8),
+        8
+    ]);
+    const priceOracle = await ethers.deployContract("PriceOracle");
+
+    const Comptroller = await ethers.getContractFactory("Comptroller");
+    const comptroller = (await upgrades.deployProxy(Comptroller)) as unknown as Comptroller;
+    const Leverage = await ethers.getContractFactory("Leverage");
+    const leverage = (await upgrades.deployProxy(Leverage, [
+        await comptroller.getAddress()
+    ])) as unknown as Leverage;
+
+    const jumpRateModel = await ethers.deployContract("JumpRateModel", [
+        2102400n,
+        parseEther("0.1"),
+        parseEther("0.45"),
+        parseEther("5"),
+        parseEther("0.9"),
+        deployer.address
+    ]);
+
+    // Exchange rate is 1:1
+    const clWstETH = await ethers.deployContract("ClErc20", [
+        await wstETHMock.getAddress(),
+        await comptroller.getAddress(),
+        await jumpRateModel.getAddress(),
+        parseEther("1"),
+        "Cluster WstETH Token",
+        "clWstETH",
+        8,
+        deployer.address
+    ]);
+    const clRETH = await ethers.deployContract("ClErc20", [
+        await rETHMock.getAddress(),
+        await comptroller.getAddress(),
+        await jumpRateModel.getAddress(),
+        parseEther("1"),
+        "Cluster RETH Token",
+        "clRETH",
+        8,
+        deployer.address
+    ]);
+
+    const clusterToken = await ethers.deployContract("ClusterToken", [deployer.address]);
+
+    return {
+        deploymentBlock,
+        stETHMock,
+        wstETHMock,
+        rETHMock,
+        erc20Mock,
+        wstETHFeed,
+        rETHFeed,
+        priceOracle,
+        comptroller,
+        leverage,
+        jumpRateModel,
+        clWstETH,
+        clRETH,
+        clusterToken
+    };
+}
+
+/**
+ * The contracts of `deployContractsFixture` wired into a working protocol: wstETH ($4000) and
+ * rETH ($3500) listed with a collateral factor of 0.8, a close factor of 0.5, a liquidation
+ * incentive of 1.08, both markets allowed in Leverage and 1M CLR held by the Comptroller.
+ * CLR speeds are left at 0. Use with `loadFixture`.
+ */
+export async function deployProtocolFixture() {
+    const contracts = await deployContractsFixture();
+    const { comptroller, leverage, priceOracle, clusterToken } = contracts;
+    const comptrollerAddr = await comptroller.getAddress();
+    const clWstETHAddr = await contracts.clWstETH.getAddress();
+    const clRETHAddr = await contracts.clRETH.getAddress();
+
+    await priceOracle.setFeed("wstETH", await contracts.wstETHFeed.getAddress());
+    await priceOracle.setFeed("rETH", await contracts.rETHFeed.getAddress());
+    await comptroller.setPriceOracle(await priceOracle.getAddress());
+
+    await comptroller.supportMarket(clWstETHAddr);
+    await comptroller.supportMarket(clRETHAddr);
+    await comptroller.setCollateralFactor(clWstETHAddr, parseEther("0.8"));
+    await comptroller.setCollateralFactor(clRETHAddr, parseEther("0.8"));
+    await comptroller.setCloseFactor(parseEther("0.5"));
+    await comptroller.setLiquidationIncentive(parseEther("1.08"));
+
+    await comptroller.setLeverageAddress(await leverage.getAddress());
+    await leverage.addMarket(clWstETHAddr);
+    await leverage.addMarket(clRETHAddr);
+
+    await clusterToken.initialMint(comptrollerAddr, parseEther("1000000"));
+    await comptroller.setClrAddress(await clusterToken.getAddress());
+
+    return { ...contracts, clWstETHAddr, clRETHAddr };
+}
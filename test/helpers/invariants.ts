@@ -0,0 +1,350 @@
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployProtocolFixture } from "./fixtures";
+import { Random } from "./random";
+
+const { MaxUint256, parseEther } = ethers;
+
+const USERS = 4;
+const MARKETS = 2;
+const BPS = 10000n;
+
+/**
+ * One action of a fuzzed sequence. Users and markets are indexes, and amounts are basis
+ * points of what the action can take when it runs (a balance, a borrow, the liquidity...), so a
+ * sequence still makes sense once steps are removed from it.
+ */
+export type Step =
+    | {
+          action: "mint" | "redeem" | "redeemUnderlying" | "borrow" | "repay";
+          user: number;
+          market: number;
+          bps: number;
+      }
+    | {
+          action: "repayBehalf" | "transfer";
+          user: number;
+          other: number;
+          market: number;
+          bps: number;
+      }
+    | {
+          action: "liquidate";
+          user: number;
+          other: number;
+          market: number;
+          collateral: number;
+          bps: number;
+      }
+    | { action: "price"; market: number; bps: number }
+    | { action: "mine"; blocks: number };
+
+/** The first step of a sequence breaking an invariant */
+export interface Failure {
+    step: number;
+    message: string;
+}
+
+/**
+ * `deployProtocolFixture` with a reserve factor of 10% on both markets, and 4 users approving
+ * and entering both markets. Users 0 and 2 hold 100 wstETH and users 1 and 3 hold 100 rETH, so
+ * that borrows are mostly against the other asset and price moves can put them in shortfall.
+ */
+export async function deployFuzzFixture() {
+    const protocol = await deployProtocolFixture();
+    const { comptroller, clWstETHAddr, clRETHAddr, wstETHMock, rETHMock } = protocol;
+    const users = (await ethers.getSigners()).slice(1, 1 + USERS);
+    const markets = [protocol.clWstETH, protocol.clRETH];
+    const underlyings = [wstETHMock, rETHMock];
+
+    for (const market of markets) await market.setReserveFactor(parseEther("0.1"));
+
+    for (const [i, user] of users.entries()) {
+        if (i % 2 === 0) {
+            await wstETHMock.mint(user.address, parseEther("100"));
+        } else {
+            await rETHMock.mint(parseEther("100"), user.address);
+        }
+        await wstETHMock.connect(user).approve(clWstETHAddr, MaxUint256);
+        await rETHMock.connect(user).approve(clRETHAddr, MaxUint256);
+        await comptroller.connect(user).enterMarkets([clWstETHAddr, clRETHAddr]);
+    }
+
+    const feeds = [protocol.wstETHFeed, protocol.rETHFeed];
+    return { ...protocol, users, markets, underlyings, feeds };
+}
+
+type Fuzz = Awaited<ReturnType<typeof deployFuzzFixture>>;
+
+/**
+ * Random sequence of `length` steps across the users and markets of `deployFuzzFixture`.
+ * Borrows take from 80% to 120% of the liquidity, so that some must be refused.
+ */
+export function generateSteps(random: Random, length: number): Step[] {
+    // weights favour the actions that build positions up and push them into shortfall
+    const actions = [
+        ...Array(3).fill("mint"),
+        "redeem",
+        "redeemUnderlying",
+        ...Array(3).fill("borrow"),
+        "repay",
+        "repayBehalf",
+        ...Array(4).fill("liquidate"),
+        "transfer",
+        ...Array(3).fill("price"),
+        ...Array(2).fill("mine")
+    ] as Step["action"][];
+    const user = () => random.int(0, USERS - 1);
+    const market = () => random.int(0, MARKETS - 1);
+    const bps = () => random.int(1, Number(BPS));
+
+    return Array.from({ length }, (): Step => {
+        const action = random.pick(actions);
+        switch (action) {
+            case "price":
+                return { action, market: market(), bps: random.int(5000, 15000) };
+            case "mine":
+                return { action, blocks: random.int(1, 200000) };
+            case "mint": {
+                // mostly the underlying the user holds
+                const minter = user();
+                const held = random.bool(0.8) ? minter % MARKETS : market();
+                return { action, user: minter, market: held, bps: bps() };
+            }
+            case "borrow": {
+                // mostly the other underlying, against the one supplied
+                const borrower = user();
+                const other = random.bool(0.8) ? (borrower + 1) % MARKETS : market();
+                return { action, user: borrower, market: other, bps: random.int(8000, 12000) };
+            }
+            case "repayBehalf":
+            case "transfer":
+                return { action, user: user(), other: user(), market: market(), bps: bps() };
+            case "liquidate":
+                return {
+                    action,
+                    user: user(),
+                    other: user(),
+                    market: market(),
+                    collateral: market(),
+                    bps: bps()
+                };
+            default:
+                return { action, user: user(), market: market(), bps: bps() };
+        }
+    });
+}
+
+/**
+ * Runs `steps` from a fresh `deployFuzzFixture` and checks the invariants after each of them.
+ * Actions the protocol refuses are part of the fuzzing and only skipped.
+ * @return The first failure, or undefined when every invariant held
+ */
+export async function runSteps(steps: Step[]): Promise<Failure | undefined> {
+    const fuzz = await loadFixture(deployFuzzFixture);
+    let exchangeRates = await Promise.all(fuzz.markets.map(m => m.exchangeRateStored()));
+
+    for (const [i, step] of steps.entries()) {
+        try {
+            await runStep(fuzz, step);
+        } catch (e) {
+            if (!isRevert(e)) throw e;
+        }
+
+        try {
+            exchangeRates = await checkInvariants(fuzz, exchangeRates);
+        } catch (e) {
+            return { step: i, message: (e as Error).message };
+        }
+    }
+}
+
+/**
+ * Removes steps from a failing sequence for as long as it keeps failing, halves first down to
+ * single steps (delta debugging), until no single step can be removed.
+ */
+export async function shrinkSteps(steps: Step[]): Promise<Step[]> {
+    let chunk = Math.ceil(steps.length / 2);
+    for (;;) {
+        let removed = false;
+        for (let start = 0; start < steps.length; ) {
+            const candidate = [...steps.slice(0, start), ...steps.slice(start + chunk)];
+            if ((await runSteps(candidate)) !== undefined) {
+                steps = candidate;
+                removed = true;
+            } else {
+                start += chunk;
+            }
+        }
+
+        if (chunk > 1) {
+            chunk = Math.floor(chunk / 2);
+        } else if (!removed) {
+            return steps;
+        }
+    }
+}
+
+function isRevert(e: unknown): boolean {
+    return (
+        (e as { code?: string }).code === "CALL_EXCEPTION" ||
+        /reverted|VM Exception/.test((e as Error).message)
+    );
+}
+
+async function runStep(fuzz: Fuzz, step: Step) {
+    if (step.action === "mine") {
+        await mine(step.blocks);
+        return;
+    }
+
+    const market = fuzz.markets[step.market];
+    const marketAddr = await market.getAddress();
+    const bps = BigInt(step.bps);
+
+    if (step.action === "price") {
+        const feed = fuzz.feeds[step.market];
+        const [roundId, answer] = await feed.latestRoundData();
+        await feed.set(roundId + 1n, (answer * bps) / BPS, 0, 0, roundId + 1n);
+        return;
+    }
+
+    const user = fuzz.users[step.user];
+    const clToken = market.connect(user);
+    switch (step.action) {
+        case "mint": {
+            const balance = await fuzz.underlyings[step.market].balanceOf(user.address);
+            await clToken.mint((balance * bps) / BPS);
+            break;
+        }
+        case "redeem":
+            await clToken.redeem(((await market.balanceOf(user.address)) * bps) / BPS);
+            break;
+        case "redeemUnderlying": {
+            const balance = await market.balanceOf(user.address);
+            const underlying = (balance * (await market.exchangeRateStored())) / parseEther("1");
+            await clToken.redeemUnderlying((underlying * bps) / BPS);
+            break;
+        }
+        case "borrow": {
+            const [liquidity] = await fuzz.comptroller.getAccountLiquidity(user.address);
+            const price = await fuzz.priceOracle.getUnderlyingPrice(marketAddr);
+            const max = (liquidity * parseEther("1")) / price;
+            const cash = await market.getCash();
+            await clToken.borrow(((max < cash ? max : cash) * bps) / BPS);
+            break;
+        }
+        case "repay": {
+            const borrow = await market.borrowBalanceStored(user.address);
+            await clToken.repayBorrow(bps === BPS ? MaxUint256 : (borrow * bps) / BPS);
+            break;
+        }
+        case "repayBehalf": {
+            const borrower = fuzz.users[step.other].address;
+            const borrow = await market.borrowBalanceStored(borrower);
+            await clToken.repayBorrowBehalf(
+                borrower,
+                bps === BPS ? MaxUint256 : (borrow * bps) / BPS
+            );
+            break;
+        }
+        case "liquidate": {
+            // `other` picks among the accounts in shortfall when there are any, as few are
+            const shortfalls = [];
+            for (const other of fuzz.users) {
+                const [, shortfall] = await fuzz.comptroller.getAccountLiquidity(other.address);
+                if (shortfall > 0n && other !== user) shortfalls.push(other.address);
+            }
+            const borrower =
+                shortfalls.length > 0
+                    ? shortfalls[step.other % shortfalls.length]
+                    : fuzz.users[step.other].address;
+            const closeFactor = await fuzz.comptroller.closeFactorMantissa();
+            const borrow = await market.borrowBalanceStored(borrower);
+            const max = (borrow * closeFactor) / parseEther("1");
+            await clToken.liquidateBorrow(
+                borrower,
+                (max * bps) / BPS,
+                await fuzz.markets[step.collateral].getAddress()
+            );
+            break;
+        }
+        case "transfer": {
+            const balance = await market.balanceOf(user.address);
+            await clToken.transfer(fuzz.users[step.other].address, (balance * bps) / BPS);
+            break;
+        }
+    }
+}
+
+/**
+ * Checks every invariant against the state after a step.
+ * @param exchangeRates The stored exchange rates before the step
+ * @return The stored exchange rates after the step
+ */
+async function checkInvariants(fuzz: Fuzz, exchangeRates: bigint[]): Promise<bigint[]> {
+    const { comptroller, markets, users } = fuzz;
+    const after: bigint[] = [];
+
+    for (const [i, market] of markets.entries()) {
+        const symbol = await market.symbol();
+        const [cash, totalBorrows, totalReserves, totalSupply, exchangeRate] = await Promise.all([
+            market.getCash(),
+            market.totalBorrows(),
+            market.totalReserves(),
+            market.totalSupply(),
+            market.exchangeRateStored()
+        ]);
+        after.push(exchangeRate);
+
+        // cash + totalBorrows - totalReserves = totalSupply * exchangeRate, up to the truncation
+        // of the exchange rate, worth less than one underlying unit per 1e18 clTokens
+        if (totalSupply > 0n) {
+            const underlying = cash + totalBorrows - totalReserves;
+            const backed = (totalSupply * exchangeRate) / parseEther("1");
+            expect(underlying, `${symbol} underlying backing the supply`).to.be.within(
+                backed,
+                backed + totalSupply / parseEther("1") + 1n
+            );
+        }
+
+        const borrowBalances = await Promise.all(
+            users.map(user => market.borrowBalanceStored(user.address))
+        );
+        const sumBorrows = borrowBalances.reduce((sum, borrow) => sum + borrow, 0n);
+        expect(sumBorrows, `${symbol} sum of the borrow balances`).to.be.at.most(totalBorrows);
+
+        // The rate only rises with interest and the rounding of mints and redeems. The markets
+        // never write bad debt off, so it cannot lower the rate either. redeemUnderlying rounds
+        // the clTokens burnt down, which may cost the remaining holders up to one clToken, and
+        // the rate restarts from its initial value once the market is empty.
+        if (totalSupply > 0n) {
+            const tolerance = exchangeRates[i] / totalSupply + 1n;
+            expect(exchangeRate, `${symbol} exchange rate`).to.be.at.least(
+                exchangeRates[i] - tolerance
+            );
+        }
+    }
+
+    for (const [u, user] of users.entries()) {
+        const [, shortfall] = await comptroller.getAccountLiquidity(user.address);
+        if (shortfall === 0n) continue;
+
+        for (const market of markets) {
+            const clToken = market.connect(user);
+            await expect(
+                clToken.borrow.staticCall(1n),
+                `user ${u} borrowing ${await market.symbol()} in shortfall`
+            ).to.be.reverted;
+            if ((await market.balanceOf(user.address)) > 0n) {
+                await expect(
+                    clToken.redeem.staticCall(1n),
+                    `user ${u} redeeming ${await market.symbol()} in shortfall`
+                ).to.be.reverted;
+            }
+        }
+    }
+
+    return after;
+}
@@ -0,0 +1,56 @@
+/**
+ * Seeded pseudo-random generator (mulberry32), so a failing randomized test can be replayed
+ * with the seed it printed.
+ */
+export class Random {
+    private state: number;
+
+    constructor(readonly seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Seed from the `SEED` environment variable, or a fixed default.
+     */
+    static fromEnv(defaultSeed = 1): Random {
+        return new Random(process.env.SEED !== undefined ? Number(process.env.SEED) : defaultSeed);
+    }
+
+    /** Float in [0, 1) */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /** Integer in [min, max] */
+    int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    /** Bigint in [min, max] */
+    bigint(min: bigint, max: bigint): bigint {
+        const range = max - min + 1n;
+        let value = 0n;
+        // 32 random bits at a time, enough bits to make the modulo bias negligible
+        for (let bits = 0n; bits < BigInt(range.toString(2).length) + 32n; bits += 32n) {
+            value = (value << 32n) | BigInt(Math.floor(this.next() * 4294967296));
+        }
+        return min + (value % range);
+    }
+
+    bool(probability = 0.5): boolean {
+        return this.next() < probability;
+    }
+
+    pick<T>(values: T[]): T {
+        return values[this.int(0, values.length - 1)];
+    }
+
+    /** Random subset of `values`, in their original order */
+    subset<T>(values: T[]): T[] {
+        return values.filter(() => this.bool());
+    }
+}